@@ -0,0 +1,8 @@
+// Config validates required settings on import, so tests run against a fixed single-token setup
+process.env.TELEGRAM_BOT_TOKEN = 'test-token';
+process.env.TELEGRAM_CHANNEL_ID = '-1001';
+process.env.HELIUS_API_KEY = 'test-key';
+process.env.TOKEN_MINT_ADDRESS = '7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr';
+process.env.TOKEN_SYMBOL = 'POPCAT';
+process.env.TOKEN_DECIMALS = '9';
+process.env.STORAGE_BACKEND = 'memory';
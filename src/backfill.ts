@@ -0,0 +1,60 @@
+import { parseArgs } from 'util';
+import logger from './utils/logger';
+import storage from './services/storage';
+import botService from './services/botService';
+import telegram from './services/telegram';
+import backfill, { BackfillOptions, parseTime } from './services/backfill';
+
+// Usage: npm run backfill -- [--mint <mint>] [--from <time>] [--to <time>]
+//          [--from-signature <sig>] [--to-signature <sig>] [--max-pages <n>] [--announce]
+// Stop the bot first when using JSON storage: both processes write the same state file.
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      'mint': { type: 'string' },
+      'from': { type: 'string' },
+      'to': { type: 'string' },
+      'from-signature': { type: 'string' },
+      'to-signature': { type: 'string' },
+      'max-pages': { type: 'string' },
+      'announce': { type: 'boolean', default: false },
+    },
+  });
+
+  const from = parseTime(values.from);
+  const to = parseTime(values.to);
+  const maxPages = values['max-pages'] ? parseInt(values['max-pages'], 10) : undefined;
+
+  const options: BackfillOptions = {
+    ...(values.mint ? { mint: values.mint } : {}),
+    ...(from !== undefined ? { from } : {}),
+    ...(to !== undefined ? { to } : {}),
+    ...(values['from-signature'] ? { fromSignature: values['from-signature'] } : {}),
+    ...(values['to-signature'] ? { toSignature: values['to-signature'] } : {}),
+    ...(maxPages !== undefined && !isNaN(maxPages) ? { maxPages } : {}),
+    announce: !!values.announce,
+  };
+
+  await storage.load();
+  botService.restoreState();
+  telegram.outbox.start();
+
+  const results = await backfill.run(options);
+  for (const result of results) {
+    console.log(`${result.symbol}: ${result.recorded} trade(s) recorded from ${result.scanned} signature(s)` +
+      ` (${result.buys} buys / ${result.sells} sells)${result.complete ? '' : ' - truncated, raise --max-pages'}`);
+  }
+
+  if (!await telegram.outbox.drain()) {
+    logger.warn(`${telegram.outbox.size()} message(s) still queued; they will be sent when the bot next starts`);
+  }
+  telegram.outbox.stop();
+  await storage.flush();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error: any) => {
+    logger.error(`Backfill failed: ${error.message}`);
+    process.exit(1);
+  });
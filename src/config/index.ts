@@ -1,39 +1,211 @@
 import 'dotenv/config';
-import { Config } from '../types';
+import fs from 'fs';
+import { AlertButton, AlertMode, BotTradeAction, CompetitionSellPolicy, Config, Explorer, IngestionMode, MediaConfig, MediaType, TokenConfig } from '../types';
+
+// buys: only buys are posted; all: buys and sells; large_sells: buys plus sells >= sellAlertThreshold SOL
+const ALERT_MODES: AlertMode[] = ['buys', 'all', 'large_sells'];
+
+const defaultWhaleThreshold = parseFloat(process.env.WHALE_THRESHOLD || '10.0');
+
+const BOT_TRADE_ACTIONS: BotTradeAction[] = ['off', 'tag', 'aggregate', 'suppress'];
+const COMPETITION_SELL_POLICIES: CompetitionSellPolicy[] = ['disqualify', 'net'];
+
+const INGESTION_MODES: IngestionMode[] = ['webhook', 'polling', 'websocket', 'none'];
+
+// INGESTION_MODE wins; otherwise keep the old behaviour of webhook if WEBHOOK_URL is set, else ENABLE_POLLING
+function resolveIngestionMode(): IngestionMode {
+  const mode = process.env.INGESTION_MODE as IngestionMode | undefined;
+  if (mode) {
+    if (!INGESTION_MODES.includes(mode)) {
+      throw new Error(`INGESTION_MODE must be one of: ${INGESTION_MODES.join(', ')}`);
+    }
+    return mode;
+  }
+  if (process.env.WEBHOOK_URL) return 'webhook';
+  if (process.env.ENABLE_POLLING === 'true') return 'polling';
+  return 'none';
+}
+
+const ingestionMode = resolveIngestionMode();
+
+const MEDIA_TYPES: MediaType[] = ['photo', 'animation', 'video'];
+
+// Telegram plays GIFs and silent MP4s as animations; anything without a known extension
+// (e.g. a bare file_id) needs an explicit type and defaults to a photo
+function inferMediaType(source: string): MediaType {
+  const extension = source.split('?')[0]?.split('.').pop()?.toLowerCase();
+  if (extension === 'gif' || extension === 'mp4') return 'animation';
+  if (extension === 'mov' || extension === 'webm') return 'video';
+  return 'photo';
+}
+
+// Accepts "path/or/url/or/file_id" or { source, type }
+function parseMedia(value: any, typeOverride?: string): MediaConfig | undefined {
+  if (!value) return undefined;
+  const source = typeof value === 'string' ? value : value.source;
+  const type = (typeof value === 'string' ? typeOverride : value.type) || inferMediaType(source);
+  return { source, type };
+}
+
+const EXPLORERS: Explorer[] = ['solscan', 'solana', 'solanafm'];
+
+// Placeholders available in button URL templates
+const BUTTON_PLACEHOLDERS = ['mint', 'signature', 'buyer', 'symbol', 'txLink', 'walletLink'];
+
+const DEFAULT_BUTTONS: AlertButton[] = [
+  { text: '📈 Chart', url: 'https://dexscreener.com/solana/{mint}' },
+  { text: '🛒 Buy', url: 'https://jup.ag/swap/SOL-{mint}' },
+  { text: '🔍 Explorer', url: '{txLink}' },
+];
+
+// BUTTONS is a JSON array of { text, url }; "[]" turns buttons off
+const defaultButtons: AlertButton[] = process.env.BUTTONS ? JSON.parse(process.env.BUTTONS) : DEFAULT_BUTTONS;
+
+// Tracked tokens come from TOKENS (JSON array), TOKENS_FILE (path to a JSON array)
+// or, for single-token deployments, the legacy TOKEN_* variables.
+function loadTokens(): TokenConfig[] {
+  let entries: any[];
+
+  if (process.env.TOKENS_FILE) {
+    entries = JSON.parse(fs.readFileSync(process.env.TOKENS_FILE, 'utf8'));
+  } else if (process.env.TOKENS) {
+    entries = JSON.parse(process.env.TOKENS);
+  } else if (process.env.TOKEN_MINT_ADDRESS) {
+    entries = [{
+      mintAddress: process.env.TOKEN_MINT_ADDRESS,
+      symbol: process.env.TOKEN_SYMBOL,
+      decimals: process.env.TOKEN_DECIMALS,
+    }];
+  } else {
+    return [];
+  }
+
+  if (!Array.isArray(entries)) {
+    throw new Error('Token registry must be a JSON array');
+  }
+
+  return entries.map((entry) => ({
+    mintAddress: entry.mintAddress,
+    symbol: entry.symbol || 'TOKEN',
+    decimals: parseInt(String(entry.decimals ?? '6'), 10),
+    channelId: entry.channelId || process.env.TELEGRAM_CHANNEL_ID as string,
+    whaleThreshold: parseFloat(String(entry.whaleThreshold ?? defaultWhaleThreshold)),
+    buyBar: {
+      emoji: entry.buyBar?.emoji || process.env.BUY_BAR_EMOJI || '🟢',
+      step: parseFloat(String(entry.buyBar?.step ?? process.env.BUY_BAR_STEP ?? '0.1')),
+      maxLength: parseInt(String(entry.buyBar?.maxLength ?? process.env.BUY_BAR_MAX_LENGTH ?? '30'), 10),
+    },
+    minBuySol: parseFloat(String(entry.minBuySol ?? process.env.MIN_BUY_SOL ?? '0')),
+    minBuyUsd: parseFloat(String(entry.minBuyUsd ?? process.env.MIN_BUY_USD ?? '0')),
+    poolAddresses: Array.isArray(entry.poolAddresses) ? entry.poolAddresses : [],
+    launchSlot: entry.launchSlot !== undefined ? parseInt(String(entry.launchSlot), 10) : undefined,
+    alertMode: entry.alertMode || process.env.ALERT_MODE || 'all',
+    sellAlertThreshold: parseFloat(String(entry.sellAlertThreshold ?? process.env.SELL_ALERT_THRESHOLD ?? '0')),
+    risk: {
+      sellSupplyPct: parseFloat(String(entry.risk?.sellSupplyPct ?? process.env.RISK_SELL_SUPPLY_PCT ?? '1')),
+      sellLiquidityPct: parseFloat(String(entry.risk?.sellLiquidityPct ?? process.env.RISK_SELL_LIQUIDITY_PCT ?? '5')),
+      sellPressureRatio: parseFloat(String(entry.risk?.sellPressureRatio ?? process.env.RISK_SELL_PRESSURE_RATIO ?? '3')),
+      sellPressureMinSol: parseFloat(String(entry.risk?.sellPressureMinSol ?? process.env.RISK_SELL_PRESSURE_MIN_SOL ?? '10')),
+      window: parseInt(String(entry.risk?.window ?? process.env.RISK_WINDOW ?? '900'), 10),
+      topHolderChangePct: parseFloat(String(entry.risk?.topHolderChangePct ?? process.env.RISK_TOP_HOLDER_CHANGE_PCT ?? '5')),
+      liquidityDropPct: parseFloat(String(entry.risk?.liquidityDropPct ?? process.env.RISK_LIQUIDITY_DROP_PCT ?? '30')),
+      cooldown: parseInt(String(entry.risk?.cooldown ?? process.env.RISK_COOLDOWN ?? '900'), 10),
+    },
+    explorer: entry.explorer || process.env.EXPLORER || 'solscan',
+    buttons: Array.isArray(entry.buttons) ? entry.buttons : defaultButtons,
+    media: {
+      buy: parseMedia(entry.media?.buy ?? process.env.BUY_MEDIA, process.env.BUY_MEDIA_TYPE),
+      whale: parseMedia(entry.media?.whale ?? process.env.WHALE_MEDIA, process.env.WHALE_MEDIA_TYPE),
+    },
+  }));
+}
 
 const config: Config = {
   telegram: {
     botToken: process.env.TELEGRAM_BOT_TOKEN as string,
     channelId: process.env.TELEGRAM_CHANNEL_ID as string,
     errorChannelId: process.env.TELEGRAM_ERROR_CHANNEL_ID,
+    adminIds: (process.env.TELEGRAM_ADMIN_IDS || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean),
+    enableCommands: process.env.TELEGRAM_ENABLE_COMMANDS === 'true',
     retryAttempts: 3,
     retryDelay: 1000,
+    buttonsPerRow: parseInt(process.env.BUTTONS_PER_ROW || '3', 10),
+    // Telegram allows about one message per second per chat (20/min in groups) and ~30/s overall
+    chatInterval: parseInt(process.env.TELEGRAM_CHAT_INTERVAL || '1000', 10),
+    globalRateLimit: parseInt(process.env.TELEGRAM_GLOBAL_RATE_LIMIT || '25', 10),
+    maxQueueSize: parseInt(process.env.TELEGRAM_MAX_QUEUE_SIZE || '1000', 10),
+    // Cap on the backoff between retries of a failed send; transient failures retry until delivered
+    maxRetryDelay: parseInt(process.env.TELEGRAM_MAX_RETRY_DELAY || '60000', 10),
   },
   helius: {
     apiKey: process.env.HELIUS_API_KEY as string,
     rpcUrl: `https://rpc.helius.xyz/?api-key=${process.env.HELIUS_API_KEY}`,
+    wsUrl: process.env.HELIUS_WS_URL || `wss://mainnet.helius-rpc.com/?api-key=${process.env.HELIUS_API_KEY}`,
     webhookUrl: process.env.WEBHOOK_URL,
+    webhookSecret: process.env.WEBHOOK_SECRET,
+    webhookAllowedIps: (process.env.WEBHOOK_ALLOWED_IPS || '')
+      .split(',')
+      .map(ip => ip.trim())
+      .filter(Boolean),
+    // Reconcile the Helius webhook with the token list on startup; disable to manage it by hand
+    manageWebhook: process.env.MANAGE_WEBHOOK !== 'false',
     retryAttempts: 3,
   },
-  token: {
-    mintAddress: process.env.TOKEN_MINT_ADDRESS as string,
-    symbol: process.env.TOKEN_SYMBOL || 'TOKEN',
-    decimals: parseInt(process.env.TOKEN_DECIMALS || '6', 10),
-  },
+  tokens: loadTokens(),
   server: {
     port: parseInt(process.env.PORT || '3000', 10),
     environment: process.env.NODE_ENV || 'development',
+    adminToken: process.env.ADMIN_API_TOKEN,
   },
   features: {
+    ingestionMode,
     // FIX: Disable polling when webhook is configured
-    enablePolling: process.env.WEBHOOK_URL ? false : (process.env.ENABLE_POLLING === 'true'),
+    enablePolling: ingestionMode === 'polling',
     // FIX: Increase polling interval to avoid rate limits
     pollingInterval: parseInt(process.env.POLLING_INTERVAL || '30000', 10), // 30 seconds instead of 5
-    whaleThreshold: parseFloat(process.env.WHALE_THRESHOLD || '10.0'),
+    whaleThreshold: defaultWhaleThreshold,
     batchWindow: parseInt(process.env.BATCH_WINDOW || '0', 10),
     maxCacheSize: 1000,
     // ADD: Rate limiting configuration
     maxRequestsPerMinute: parseInt(process.env.MAX_REQUESTS_PER_MINUTE || '50', 10),
+    // Holder counts page through every token account, so refresh them sparingly (0 disables)
+    holderRefreshInterval: parseInt(process.env.HOLDER_REFRESH_INTERVAL || '600000', 10),
+    detectNewHolders: process.env.DETECT_NEW_HOLDERS !== 'false',
+    // Resubscribe (and gap-fill) if the log subscription has been silent this long
+    wsIdleTimeout: parseInt(process.env.WS_IDLE_TIMEOUT || '300000', 10),
+    // Buyer position, first/repeat status and per-wallet history on alerts
+    walletProfiles: process.env.WALLET_PROFILES !== 'false',
+    walletCacheTtl: parseInt(process.env.WALLET_CACHE_TTL || '300000', 10),
+    // What to do with sniper, bundle and round-trip trades (see BotTradeAction). Off by default:
+    // bundle detection looks up funding wallets, which costs RPC calls during busy launches
+    botTradeAction: (process.env.BOT_TRADE_ACTION || 'off') as BotTradeAction,
+    botTradeWindow: parseInt(process.env.BOT_TRADE_WINDOW || '60', 10),
+    // Longest an alert waits for classification (ms); slower lookups finish in the background untagged
+    botTradeTimeout: parseInt(process.env.BOT_TRADE_TIMEOUT || '1500', 10),
+    sniperSlots: parseInt(process.env.SNIPER_SLOTS || '2', 10),
+    roundTripWindow: parseInt(process.env.ROUND_TRIP_WINDOW || '300', 10),
+    // How often holder concentration and pool liquidity are sampled for risk alerts (0 disables)
+    riskCheckInterval: parseInt(process.env.RISK_CHECK_INTERVAL || '300000', 10),
+    // How often a running competition posts its leaderboard (0 only posts start and results)
+    competitionLeaderboardInterval: parseInt(process.env.COMPETITION_LEADERBOARD_INTERVAL || '1800000', 10),
+    competitionLeaderboardSize: parseInt(process.env.COMPETITION_LEADERBOARD_SIZE || '10', 10),
+    // Defaults for competitions started without these options
+    competitionSellPolicy: (process.env.COMPETITION_SELL_POLICY || 'disqualify') as CompetitionSellPolicy,
+    competitionWinners: parseInt(process.env.COMPETITION_WINNERS || '3', 10),
+  },
+  storage: {
+    backend: process.env.STORAGE_BACKEND === 'memory' ? 'memory' : 'json',
+    filePath: process.env.STORAGE_PATH || './data/state.json',
+    maxSignatures: parseInt(process.env.STORAGE_MAX_SIGNATURES || '5000', 10),
+    maxTrades: parseInt(process.env.STORAGE_MAX_TRADES || '500', 10),
+    maxWallets: parseInt(process.env.STORAGE_MAX_WALLETS || '20000', 10),
+    flushDelay: 2000,
+  },
+  walletLabels: {
+    filePath: process.env.WALLET_LABELS_FILE || './data/wallet-labels.json',
   },
 };
 
@@ -41,7 +213,6 @@ const required: Array<{key: string, path: string}> = [
   { key: 'TELEGRAM_BOT_TOKEN', path: 'telegram.botToken' },
   { key: 'TELEGRAM_CHANNEL_ID', path: 'telegram.channelId' },
   { key: 'HELIUS_API_KEY', path: 'helius.apiKey' },
-  { key: 'TOKEN_MINT_ADDRESS', path: 'token.mintAddress' },
 ];
 
 for (const { key, path } of required) {
@@ -51,17 +222,122 @@ for (const { key, path } of required) {
   }
 }
 
-if (isNaN(config.token.decimals)) {
-  throw new Error('TOKEN_DECIMALS must be a valid number');
+if (config.tokens.length === 0) {
+  throw new Error('Missing required config: TOKEN_MINT_ADDRESS (or TOKENS / TOKENS_FILE)');
+}
+
+const seenMints = new Set<string>();
+for (const token of config.tokens) {
+  if (!token.mintAddress) {
+    throw new Error(`Token ${token.symbol} is missing mintAddress`);
+  }
+  if (seenMints.has(token.mintAddress)) {
+    throw new Error(`Token ${token.mintAddress} is configured more than once`);
+  }
+  seenMints.add(token.mintAddress);
+
+  if (isNaN(token.decimals)) {
+    throw new Error(`Decimals for ${token.symbol} must be a valid number`);
+  }
+  if (isNaN(token.whaleThreshold)) {
+    throw new Error(`Whale threshold for ${token.symbol} must be a valid number`);
+  }
+  if (!token.channelId) {
+    throw new Error(`No Telegram channel configured for ${token.symbol}`);
+  }
+  if (!(token.buyBar.step > 0) || !(token.buyBar.maxLength >= 0)) {
+    throw new Error(`Buy bar for ${token.symbol} needs a positive step and a non-negative max length`);
+  }
+  if (!ALERT_MODES.includes(token.alertMode)) {
+    throw new Error(`Alert mode for ${token.symbol} must be one of: ${ALERT_MODES.join(', ')}`);
+  }
+  if (isNaN(token.sellAlertThreshold)) {
+    throw new Error(`Sell alert threshold for ${token.symbol} must be a valid number`);
+  }
+  if (isNaN(token.minBuySol) || isNaN(token.minBuyUsd)) {
+    throw new Error(`Minimum buy for ${token.symbol} must be a valid number`);
+  }
+  if (token.launchSlot !== undefined && isNaN(token.launchSlot)) {
+    throw new Error(`Launch slot for ${token.symbol} must be a valid number`);
+  }
+  for (const [key, value] of Object.entries(token.risk)) {
+    if (isNaN(value) || value < 0) {
+      throw new Error(`Risk setting ${key} for ${token.symbol} must be a non-negative number`);
+    }
+  }
+  if (!EXPLORERS.includes(token.explorer)) {
+    throw new Error(`Explorer for ${token.symbol} must be one of: ${EXPLORERS.join(', ')}`);
+  }
+  for (const button of token.buttons) {
+    if (!button?.text || typeof button.url !== 'string') {
+      throw new Error(`Buttons for ${token.symbol} need both text and url`);
+    }
+    for (const [, placeholder] of button.url.matchAll(/\{(\w+)\}/g)) {
+      if (placeholder && !BUTTON_PLACEHOLDERS.includes(placeholder)) {
+        throw new Error(`Button "${button.text}" for ${token.symbol} uses unknown placeholder {${placeholder}}. Allowed: ${BUTTON_PLACEHOLDERS.join(', ')}`);
+      }
+    }
+  }
+  for (const media of [token.media.buy, token.media.whale]) {
+    if (!media) continue;
+    if (typeof media.source !== 'string' || !MEDIA_TYPES.includes(media.type)) {
+      throw new Error(`Media for ${token.symbol} needs a source and a type of ${MEDIA_TYPES.join(', ')}`);
+    }
+    // Something that looks like a file path but isn't on disk is almost certainly a typo, not a file_id
+    const isUrl = /^https?:\/\//.test(media.source);
+    if (!isUrl && /[\/\\]|\.\w{2,4}$/.test(media.source) && !fs.existsSync(media.source)) {
+      throw new Error(`Media file for ${token.symbol} not found: ${media.source}`);
+    }
+  }
+}
+
+if (!BOT_TRADE_ACTIONS.includes(config.features.botTradeAction)) {
+  throw new Error(`BOT_TRADE_ACTION must be one of: ${BOT_TRADE_ACTIONS.join(', ')}`);
+}
+if (!(config.features.sniperSlots >= 0) || !(config.features.roundTripWindow >= 0) || !(config.features.botTradeWindow > 0) || !(config.features.botTradeTimeout >= 0)) {
+  throw new Error('SNIPER_SLOTS, ROUND_TRIP_WINDOW and BOT_TRADE_TIMEOUT must be non-negative and BOT_TRADE_WINDOW positive');
+}
+
+if (!COMPETITION_SELL_POLICIES.includes(config.features.competitionSellPolicy)) {
+  throw new Error(`COMPETITION_SELL_POLICY must be one of: ${COMPETITION_SELL_POLICIES.join(', ')}`);
+}
+
+if (!(config.features.competitionLeaderboardInterval >= 0) || !(config.features.competitionLeaderboardSize > 0) || !(config.features.competitionWinners > 0)) {
+  throw new Error('COMPETITION_LEADERBOARD_INTERVAL must be non-negative and COMPETITION_LEADERBOARD_SIZE and COMPETITION_WINNERS positive');
+}
+
+if (!(config.telegram.buttonsPerRow > 0)) {
+  throw new Error('BUTTONS_PER_ROW must be a positive number');
+}
+
+if (!(config.telegram.chatInterval >= 0) || !(config.telegram.globalRateLimit > 0) || !(config.telegram.maxQueueSize > 0)
+  || !(config.telegram.maxRetryDelay > 0)) {
+  throw new Error('TELEGRAM_CHAT_INTERVAL must be non-negative; TELEGRAM_GLOBAL_RATE_LIMIT, TELEGRAM_MAX_QUEUE_SIZE and TELEGRAM_MAX_RETRY_DELAY must be positive');
+}
+
+console.log(`   Tracking ${config.tokens.length} token(s): ${config.tokens.map(t => t.symbol).join(', ')}`);
+
+if (config.telegram.enableCommands && config.telegram.adminIds.length === 0) {
+  console.warn('   TELEGRAM_ENABLE_COMMANDS is on but TELEGRAM_ADMIN_IDS is empty - all commands will be rejected');
+}
+
+if (!config.server.adminToken) {
+  console.warn('   ADMIN_API_TOKEN not set - admin API routes (webhooks, backfill, wallet labels, competitions) are disabled');
+}
+
+if (config.helius.webhookUrl && !config.helius.webhookSecret) {
+  console.warn('   WEBHOOK_SECRET not set - /webhook accepts unauthenticated requests!');
 }
 
 // Log the mode we're operating in
-if (config.helius.webhookUrl && !config.features.enablePolling) {
+if (config.features.ingestionMode === 'webhook') {
   console.log('   Mode: Webhook-only (recommended for production)');
-} else if (config.features.enablePolling) {
+} else if (config.features.ingestionMode === 'polling') {
   console.log(`   Mode: Polling every ${config.features.pollingInterval}ms`);
+} else if (config.features.ingestionMode === 'websocket') {
+  console.log('   Mode: WebSocket log subscription');
 } else {
-  console.warn('   Mode: Neither webhook nor polling enabled!');
+  console.warn('   Mode: Neither webhook, polling nor websocket enabled!');
 }
 
 export default config;
\ No newline at end of file
@@ -1,4 +1,6 @@
+import crypto from 'crypto';
 import rateLimit from 'express-rate-limit';
+import config from '../config';
 import logger from '../utils/logger';
 
 import { Request, Response, NextFunction } from 'express';
@@ -15,10 +17,54 @@ const webhookLimiter = rateLimit({
     }
 });
 
+function normalizeIp(ip: string = '') {
+    return ip.startsWith('::ffff:') ? ip.slice(7) : ip;
+}
+
+function secretsMatch(received: string, expected: string) {
+    // Hash both sides so timingSafeEqual gets equal-length buffers regardless of input
+    const receivedHash = crypto.createHash('sha256').update(received).digest();
+    const expectedHash = crypto.createHash('sha256').update(expected).digest();
+    return crypto.timingSafeEqual(receivedHash, expectedHash);
+}
+
 function validateWebhookSource(req: Request, res: Response, next: NextFunction) {
     logger.debug(`Webhook request from ${req.ip}`);
+
+    const { webhookSecret, webhookAllowedIps } = config.helius;
+
+    if (webhookAllowedIps.length > 0 && !webhookAllowedIps.includes(normalizeIp(req.ip))) {
+        logger.warn(`Rejected webhook from non-allowlisted IP ${req.ip}`);
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    if (webhookSecret) {
+        const authorization = req.get('Authorization') || '';
+        if (!secretsMatch(authorization, webhookSecret)) {
+            logger.warn(`Rejected webhook with invalid Authorization header from ${req.ip}`);
+            return res.status(401).json({ error: 'Unauthorized' });
+        }
+    }
+
+    next();
+}
+// Guards routes that change bot state or spend API credits: `Authorization: Bearer <ADMIN_API_TOKEN>`
+function requireAdminToken(req: Request, res: Response, next: NextFunction) {
+    const { adminToken } = config.server;
+    if (!adminToken) {
+        return res.status(403).json({ success: false, error: 'Admin API disabled - set ADMIN_API_TOKEN' });
+    }
+
+    const authorization = req.get('Authorization') || '';
+    const token = authorization.startsWith('Bearer ') ? authorization.slice(7) : '';
+    if (!secretsMatch(token, adminToken)) {
+        logger.warn(`Rejected admin request to ${req.method} ${req.path} from ${req.ip}`);
+        return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
     next();
 }
+
 function validateWebhookPayload(req: Request, res: Response, next: NextFunction) {
     if (!Array.isArray(req.body)) {
         logger.warn('Invalid webhook payload format');
@@ -27,4 +73,4 @@ function validateWebhookPayload(req: Request, res: Response, next: NextFunction)
     next();
 }
 
-export { webhookLimiter, validateWebhookSource, validateWebhookPayload };
+export { webhookLimiter, validateWebhookSource, validateWebhookPayload, requireAdminToken };
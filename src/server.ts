@@ -8,7 +8,15 @@ import logger from './utils/logger';
 import botService from './services/botService';
 import helius from './services/helius';
 import telegram from './services/telegram';
-import { webhookLimiter, validateWebhookSource, validateWebhookPayload } from './middleware/validation';
+import tokenRegistry from './services/tokenRegistry';
+import storage from './services/storage';
+import commands from './services/commands';
+import backfill, { parseTime } from './services/backfill';
+import walletLabels from './services/walletLabels';
+import riskMonitor from './services/riskMonitor';
+import competitions, { parseDuration } from './services/competitions';
+import { webhookLimiter, validateWebhookSource, validateWebhookPayload, requireAdminToken } from './middleware/validation';
+import { HeliusWebhook } from './types';
 
 
 const app = express();
@@ -19,6 +27,11 @@ app.set('trust proxy', 1);
 
 const PORT = process.env.PORT;
 
+// Helius returns authHeader (our WEBHOOK_SECRET) with every webhook; it never leaves the server
+function redactWebhook({ authHeader, ...webhook }: HeliusWebhook) {
+    return { ...webhook, hasAuthHeader: !!authHeader };
+}
+
 app.use(express.json({ limit: '10mb' }));
 app.use(cors());
 
@@ -45,7 +58,8 @@ app.get('/health', (req, res) => {
         uptime: process.uptime(),
         memory: process.memoryUsage(),
         config: {
-            token: config.token.symbol,
+            tokens: tokenRegistry.all().map(token => token.symbol),
+            ingestionMode: config.features.ingestionMode,
             polling: config.features.enablePolling,
             webhook: !!config.helius.webhookUrl,
             environment: config.server.environment
@@ -59,10 +73,14 @@ app.get('/health', (req, res) => {
  * /webhook:
  *   post:
  *     summary: Process webhook
- *     description: Processes a webhook from Helius.
+ *     description: Processes a webhook from Helius. When WEBHOOK_SECRET is set the Authorization header must match it.
  *     responses:
  *       200:
  *         description: OK
+ *       401:
+ *         description: Missing or invalid Authorization header
+ *       403:
+ *         description: Source IP not in WEBHOOK_ALLOWED_IPS
  */
 
 app.post('/webhook', 
@@ -103,13 +121,17 @@ app.post('/webhook',
  * /webhooks:
  *   get:
  *     summary: Fetch webhooks
- *     description: Fetches webhooks from Helius.
+ *     description: Fetches webhooks from Helius. The auth header is redacted.
+ *     security:
+ *       - adminToken: []
  *     responses:
  *       200:
  *         description: OK
+ *       401:
+ *         description: Missing or invalid admin token
  */
 
-app.get('/webhooks', async (req, res) => {
+app.get('/webhooks', requireAdminToken, async (req: Request, res: Response) => {
     try {
         // Check if we're currently rate limited
         const rateLimitKey = 'helius_rate_limited';
@@ -128,7 +150,7 @@ app.get('/webhooks', async (req, res) => {
         const webhooks = await helius.getWebhooks();
         res.json({
             success: true,
-            webhooks: webhooks,
+            webhooks: webhooks.map(redactWebhook),
             count: webhooks.length
         });
     } catch (error: any) {
@@ -194,13 +216,17 @@ app.get('/stats', (req, res) => {
  * /setup-webhook:
  *   post:
  *     summary: Setup webhook
- *     description: Sets up a webhook with Helius.
+ *     description: Ensures a single Helius webhook exists for WEBHOOK_URL and matches the tracked tokens. Finds the bot's webhook by its stored id, its URL or its account set, creates it if missing, updates it in place if the URL, addresses or settings drifted, and deletes duplicates. Safe to call repeatedly.
+ *     security:
+ *       - adminToken: []
  *     responses:
  *       200:
  *         description: OK
+ *       401:
+ *         description: Missing or invalid admin token
  */
 
-app.post('/setup-webhook', async (req, res) => {
+app.post('/setup-webhook', requireAdminToken, async (req: Request, res: Response) => {
     try {
         if (!config.helius.webhookUrl) {
             return res.status(400).json({
@@ -223,13 +249,13 @@ app.post('/setup-webhook', async (req, res) => {
             });
         }
 
-        const result = await helius.setupWebhook();
+        const result = await botService.setupWebhookManually();
         
-        logger.info('Webhook setup completed:', result);
         res.json({
             success: true,
-            message: 'Webhook created successfully',
-            webhook: result
+            message: `Webhook ${result.action}`,
+            action: result.action,
+            webhook: redactWebhook(result.webhook)
         });
     } catch (error: any) {
         logger.error('Webhook setup failed:', error);
@@ -279,24 +305,191 @@ app.get('/rate-limit-status', (req, res) => {
 /**
  * @openapi
  * /webhook/{webhookId}:
+ *   put:
+ *     summary: Update webhook
+ *     description: Edits a Helius webhook. Only the fields given are changed; the rest are kept.
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               webhookURL: { type: string }
+ *               accountAddresses: { type: array, items: { type: string } }
+ *               transactionTypes: { type: array, items: { type: string } }
+ *               webhookType: { type: string }
+ *     responses:
+ *       200:
+ *         description: OK
+ *       400:
+ *         description: Invalid fields
+ *       401:
+ *         description: Missing or invalid admin token
+ *       404:
+ *         description: Webhook not found
  *   delete:
  *     summary: Delete webhook
- *     description: Deletes a webhook.
+ *     description: Deletes a Helius webhook.
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: OK
+ *       401:
+ *         description: Missing or invalid admin token
+ *       404:
+ *         description: Webhook not found
  */
 
-app.delete('/webhook/:webhookId', async (req, res) => {
+app.put('/webhook/:webhookId', requireAdminToken, async (req: Request<{ webhookId: string }>, res: Response) => {
+    const { webhookId } = req.params;
+    const body = req.body || {};
+    const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+    if ((body.accountAddresses !== undefined && !isStringArray(body.accountAddresses)) ||
+        (body.transactionTypes !== undefined && !isStringArray(body.transactionTypes)) ||
+        (body.webhookURL !== undefined && typeof body.webhookURL !== 'string') ||
+        (body.webhookType !== undefined && typeof body.webhookType !== 'string')) {
+        return res.status(400).json({
+            success: false,
+            error: 'accountAddresses and transactionTypes must be string arrays; webhookURL and webhookType must be strings'
+        });
+    }
+
+    try {
+        const webhook = await helius.updateWebhook(webhookId, {
+            ...(body.webhookURL ? { webhookURL: body.webhookURL } : {}),
+            ...(body.accountAddresses ? { accountAddresses: body.accountAddresses } : {}),
+            ...(body.transactionTypes ? { transactionTypes: body.transactionTypes } : {}),
+            ...(body.webhookType ? { webhookType: body.webhookType } : {}),
+        });
+        res.json({
+            success: true,
+            webhook: redactWebhook(webhook)
+        });
+    } catch (error: any) {
+        logger.error('Webhook update failed:', error);
+        res.status(error.response?.status === 404 ? 404 : 500).json({
+            success: false,
+            error: error.message
+        });
+    }
+});
+
+app.delete('/webhook/:webhookId', requireAdminToken, async (req: Request<{ webhookId: string }>, res: Response) => {
     try {
         const { webhookId } = req.params;
+        await helius.deleteWebhook(webhookId);
+        if (botService.webhookId === webhookId) {
+            botService.webhookId = null;
+        }
         res.json({
             success: true,
-            message: `Webhook ${webhookId} deletion requested`,
-            note: 'Use Helius dashboard to delete webhooks'
+            message: `Webhook ${webhookId} deleted`
         });
     } catch (error: any) {
         logger.error('Webhook deletion failed:', error);
+        res.status(error.response?.status === 404 ? 404 : 500).json({
+            success: false,
+            error: error.message
+        });
+    }
+});
+
+/**
+ * @openapi
+ * /backfill:
+ *   post:
+ *     summary: Backfill history
+ *     description: Walks transaction history for one or all tracked tokens and records trades missed while the bot was down. Bound the range by time (`from`/`to`, ISO date or unix seconds) and/or signature (`fromSignature`/`toSignature`, exclusive). Trades are recorded silently unless `announce` is true, which posts one summary per token.
+ *     security:
+ *       - adminToken: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               mint: { type: string }
+ *               from: { type: string }
+ *               to: { type: string }
+ *               fromSignature: { type: string }
+ *               toSignature: { type: string }
+ *               announce: { type: boolean }
+ *               maxPages: { type: integer }
+ *     responses:
+ *       200:
+ *         description: OK
+ *       400:
+ *         description: Invalid range or unknown token
+ *       401:
+ *         description: Missing or invalid admin token
+ *       409:
+ *         description: A backfill is already running
+ */
+
+app.post('/backfill', requireAdminToken, async (req, res) => {
+    if (backfill.isRunning) {
+        return res.status(409).json({
+            success: false,
+            error: 'A backfill is already running'
+        });
+    }
+
+    let options;
+    try {
+        const body = req.body || {};
+        const from = parseTime(body.from);
+        const to = parseTime(body.to);
+        const maxPages = body.maxPages !== undefined ? parseInt(body.maxPages, 10) : undefined;
+        if (maxPages !== undefined && (isNaN(maxPages) || maxPages <= 0)) {
+            throw new Error('maxPages must be a positive integer');
+        }
+        if (body.mint && !tokenRegistry.has(body.mint)) {
+            throw new Error(`Unknown token: ${body.mint}`);
+        }
+
+        options = {
+            ...(body.mint ? { mint: String(body.mint) } : {}),
+            ...(from !== undefined ? { from } : {}),
+            ...(to !== undefined ? { to } : {}),
+            ...(body.fromSignature ? { fromSignature: String(body.fromSignature) } : {}),
+            ...(body.toSignature ? { toSignature: String(body.toSignature) } : {}),
+            ...(maxPages !== undefined ? { maxPages } : {}),
+            announce: body.announce === true,
+        };
+        if (options.from !== undefined && options.to !== undefined && options.from > options.to) {
+            throw new Error('`from` must be before `to`');
+        }
+    } catch (error: any) {
+        return res.status(400).json({
+            success: false,
+            error: error.message
+        });
+    }
+
+    try {
+        const results = await backfill.run(options);
+        res.json({
+            success: true,
+            results
+        });
+    } catch (error: any) {
+        logger.error('Backfill failed:', error);
         res.status(500).json({
             success: false,
             error: error.message
@@ -304,6 +497,286 @@ app.delete('/webhook/:webhookId', async (req, res) => {
     }
 });
 
+/**
+ * @openapi
+ * /wallet-labels:
+ *   get:
+ *     summary: List wallet labels
+ *     description: Lists labeled wallets. Labels are shown on alerts; watched wallets also trigger a priority alert to the admin channel on every trade.
+ *     security:
+ *       - adminToken: []
+ *     responses:
+ *       200:
+ *         description: OK
+ *       401:
+ *         description: Missing or invalid admin token
+ */
+
+app.get('/wallet-labels', requireAdminToken, (req: Request, res: Response) => {
+    const labels = walletLabels.all();
+    res.json({
+        success: true,
+        labels,
+        count: labels.length
+    });
+});
+
+/**
+ * @openapi
+ * /wallet-labels/{address}:
+ *   get:
+ *     summary: Get wallet label
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: OK
+ *       401:
+ *         description: Missing or invalid admin token
+ *       404:
+ *         description: Wallet not labeled
+ *   put:
+ *     summary: Create or update wallet label
+ *     description: Fields left out keep their current value.
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               label: { type: string }
+ *               emoji: { type: string }
+ *               watch: { type: boolean }
+ *     responses:
+ *       200:
+ *         description: OK
+ *       400:
+ *         description: Invalid address, missing label, or Markdown characters in label or emoji
+ *       401:
+ *         description: Missing or invalid admin token
+ *   delete:
+ *     summary: Delete wallet label
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: OK
+ *       401:
+ *         description: Missing or invalid admin token
+ *       404:
+ *         description: Wallet not labeled
+ */
+
+app.get('/wallet-labels/:address', requireAdminToken, (req: Request<{ address: string }>, res: Response) => {
+    const label = walletLabels.get(req.params.address);
+    if (!label) {
+        return res.status(404).json({
+            success: false,
+            error: 'Wallet not labeled'
+        });
+    }
+    res.json({
+        success: true,
+        label
+    });
+});
+
+app.put('/wallet-labels/:address', requireAdminToken, async (req: Request<{ address: string }>, res: Response) => {
+    const body = req.body || {};
+    let label;
+    try {
+        label = walletLabels.build(req.params.address, {
+            ...(body.label !== undefined ? { label: body.label } : {}),
+            ...(body.emoji !== undefined ? { emoji: body.emoji } : {}),
+            ...(body.watch !== undefined ? { watch: body.watch } : {}),
+        });
+    } catch (error: any) {
+        return res.status(400).json({
+            success: false,
+            error: error.message
+        });
+    }
+
+    try {
+        await walletLabels.put(label);
+        res.json({
+            success: true,
+            label
+        });
+    } catch (error: any) {
+        logger.error('Failed to save wallet label:', error);
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+});
+
+app.delete('/wallet-labels/:address', requireAdminToken, async (req: Request<{ address: string }>, res: Response) => {
+    try {
+        const removed = await walletLabels.remove(req.params.address);
+        if (!removed) {
+            return res.status(404).json({
+                success: false,
+                error: 'Wallet not labeled'
+            });
+        }
+        res.json({
+            success: true,
+            message: `Label for ${req.params.address} deleted`
+        });
+    } catch (error: any) {
+        logger.error('Failed to delete wallet label:', error);
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+});
+
+/**
+ * @openapi
+ * /competitions:
+ *   get:
+ *     summary: List competitions
+ *     description: Lists scheduled, running and recently finished buy competitions with their current standings.
+ *     responses:
+ *       200:
+ *         description: OK
+ *   post:
+ *     summary: Start a buy competition
+ *     description: Qualifying buys (at least `minBuySol`) between `start` and `end` are ranked by total SOL bought or by largest single buy (`metric`). Sells during the competition either disqualify the wallet or are deducted from its total (`sellPolicy`). The leaderboard is posted to the token's channel on a schedule and the top `winners` are announced at the end. `start`/`end` take an ISO date or unix seconds; `end` also takes a duration such as `24h`.
+ *     security:
+ *       - adminToken: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [mint, end, minBuySol]
+ *             properties:
+ *               mint: { type: string }
+ *               start: { type: string }
+ *               end: { type: string }
+ *               minBuySol: { type: number }
+ *               sellPolicy: { type: string, enum: [disqualify, net] }
+ *               metric: { type: string, enum: [total, largest] }
+ *               winners: { type: integer }
+ *     responses:
+ *       200:
+ *         description: OK
+ *       400:
+ *         description: Invalid times, thresholds or unknown token
+ *       401:
+ *         description: Missing or invalid admin token
+ *       409:
+ *         description: The token already has a competition scheduled or running
+ */
+
+app.get('/competitions', (req, res) => {
+    const list = competitions.list().map(competition => ({
+        ...competition,
+        standings: competitions.standings(competition).map(({ entry, score }) => ({ ...entry, score })),
+    }));
+    res.json({
+        success: true,
+        competitions: list,
+        count: list.length
+    });
+});
+
+app.post('/competitions', requireAdminToken, (req: Request, res: Response) => {
+    const body = req.body || {};
+    if (body.mint && competitions.getOpen(body.mint)) {
+        return res.status(409).json({
+            success: false,
+            error: 'This token already has a competition scheduled or running'
+        });
+    }
+
+    try {
+        const startsAt = parseTime(body.start);
+        const duration = parseDuration(body.end);
+        const endsAt = duration === undefined ? parseTime(body.end) : undefined;
+        const competition = competitions.create({
+            mint: String(body.mint || ''),
+            ...(startsAt !== undefined ? { startsAt } : {}),
+            ...(endsAt !== undefined ? { endsAt } : {}),
+            ...(duration !== undefined ? { duration } : {}),
+            minBuySol: Number(body.minBuySol),
+            ...(body.sellPolicy !== undefined ? { sellPolicy: body.sellPolicy } : {}),
+            ...(body.metric !== undefined ? { metric: body.metric } : {}),
+            ...(body.winners !== undefined ? { winners: Number(body.winners) } : {}),
+        });
+        res.json({
+            success: true,
+            competition
+        });
+    } catch (error: any) {
+        res.status(400).json({
+            success: false,
+            error: error.message
+        });
+    }
+});
+
+/**
+ * @openapi
+ * /competitions/{id}:
+ *   delete:
+ *     summary: Cancel a competition
+ *     description: Cancels a scheduled or running competition without announcing winners.
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: OK
+ *       401:
+ *         description: Missing or invalid admin token
+ *       404:
+ *         description: No open competition with this id
+ */
+
+app.delete('/competitions/:id', requireAdminToken, (req: Request<{ id: string }>, res: Response) => {
+    const competition = competitions.cancel(req.params.id);
+    if (!competition) {
+        return res.status(404).json({
+            success: false,
+            error: 'No open competition with this id'
+        });
+    }
+    res.json({
+        success: true,
+        message: `Competition ${competition.id} cancelled`
+    });
+});
+
 app.post('/simulate', async (req, res) => {
     if (config.server.environment === 'production') {
         return res.status(403).json({
@@ -312,6 +785,14 @@ app.post('/simulate', async (req, res) => {
         });
     }
 
+    const token = tokenRegistry.get(req.body.mint) || tokenRegistry.all()[0];
+    if (!token) {
+        return res.status(400).json({
+            success: false,
+            error: 'No tracked token to simulate'
+        });
+    }
+
     try {
         const mockTransaction = {
             signature: 'mock_' + Date.now(),
@@ -324,8 +805,8 @@ app.post('/simulate', async (req, res) => {
                         tokenAmount: req.body.solAmount || 1000000000 // 1 SOL in lamports
                     }],
                     tokenOutputs: [{
-                        mint: config.token.mintAddress,
-                        tokenAmount: (req.body.tokenAmount || 1000000) * Math.pow(10, config.token.decimals)
+                        mint: token.mintAddress,
+                        tokenAmount: (req.body.tokenAmount || 1000000) * Math.pow(10, token.decimals)
                     }]
                 }]
             },
@@ -377,10 +858,46 @@ bot_processed_transactions_total ${status.stats?.transactionCount || 0}
 # TYPE bot_total_raised_sol gauge  
 bot_total_raised_sol ${stats.totalRaised || 0}
 
+# HELP bot_volume_sol Cumulative trade volume in SOL by side
+# TYPE bot_volume_sol counter
+bot_volume_sol{side="buy"} ${stats.buyVolume || 0}
+bot_volume_sol{side="sell"} ${stats.sellVolume || 0}
+
+# HELP bot_net_flow_sol Buy volume minus sell volume in SOL
+# TYPE bot_net_flow_sol gauge
+bot_net_flow_sol ${stats.netFlow || 0}
+
 # HELP bot_total_holders Total token holders
 # TYPE bot_total_holders gauge
 bot_total_holders ${stats.totalHolders || 0}
 
+# HELP bot_parser_path_total Transactions by parsing path
+# TYPE bot_parser_path_total counter
+bot_parser_path_total{path="swap_event"} ${status.parserPaths.swapEvent}
+bot_parser_path_total{path="balance_changes"} ${status.parserPaths.balanceChanges}
+bot_parser_path_total{path="unparsed"} ${status.parserPaths.unparsed}
+
+# HELP bot_outbound_queue_depth Telegram messages waiting to be sent
+# TYPE bot_outbound_queue_depth gauge
+bot_outbound_queue_depth ${status.outbox.depth}
+${Object.entries(status.outbox.chats).map(([chatId, depth]) => `bot_outbound_queue_depth{chat="${chatId}"} ${depth}`).join('\n')}
+
+# HELP bot_outbound_messages_total Telegram messages by delivery outcome
+# TYPE bot_outbound_messages_total counter
+bot_outbound_messages_total{outcome="sent"} ${status.outbox.sent}
+bot_outbound_messages_total{outcome="dropped"} ${status.outbox.dropped}
+bot_outbound_messages_total{outcome="rate_limited"} ${status.outbox.rateLimited}
+
+# HELP bot_flagged_trades_total Trades flagged as sniper, bundle or round trip
+# TYPE bot_flagged_trades_total counter
+bot_flagged_trades_total{flag="sniper"} ${status.flaggedTrades.sniper}
+bot_flagged_trades_total{flag="bundle"} ${status.flaggedTrades.bundle}
+bot_flagged_trades_total{flag="roundtrip"} ${status.flaggedTrades.roundtrip}
+
+# HELP bot_risk_alerts_total Risk alerts sent to the admin channel by kind
+# TYPE bot_risk_alerts_total counter
+${Object.entries(status.riskAlerts).map(([kind, count]) => `bot_risk_alerts_total{kind="${kind}"} ${count}`).join('\n')}
+
 # HELP bot_cache_size Current cache size
 # TYPE bot_cache_size gauge
 bot_cache_size ${status.processedTransactions || 0}
@@ -424,11 +941,17 @@ app.use((req: Request, res: Response) => {
       'GET /health',
       'GET /stats', 
       'GET /webhooks',
-      'DELETE /webhooks/:webhookId',
+      'PUT /webhook/:webhookId',
+      'DELETE /webhook/:webhookId',
       'GET /rate-limit-status',
       'GET /metrics',
       'POST /webhook',
       'POST /setup-webhook',
+      'POST /backfill',
+      'GET /wallet-labels',
+      'GET|PUT|DELETE /wallet-labels/:address',
+      'GET|POST /competitions',
+      'DELETE /competitions/:id',
       'POST /simulate (dev only)'
     ]
   });
@@ -451,6 +974,14 @@ async function start() {
             throw new Error(`botService not accessible: ${botError.message}`);
         }
 
+        // Restore persisted signatures and stats before any transaction can be processed
+        await storage.load();
+        await walletLabels.load();
+        botService.restoreState();
+        // Resumes delivery of alerts that were still queued when the last process stopped
+        telegram.outbox.start();
+        competitions.start();
+
         const initTimeout = new Promise((_, reject) => {
             setTimeout(() => {
                 reject(new Error('Bot initialization timeout after 30 seconds'));
@@ -468,6 +999,13 @@ async function start() {
         }
         
         logger.info('✅ Bot service initialized successfully');
+
+        try {
+            await commands.start();
+        } catch (commandError: any) {
+            // Admin commands are optional; alerts keep working without them
+            logger.error(`Failed to start Telegram commands: ${commandError.message}`);
+        }
         
         const server = await new Promise<any>((resolve, reject) => {
             const serverInstance = app.listen(configCheck.server.port, '0.0.0.0', () => {
@@ -499,18 +1037,32 @@ async function start() {
         const gracefulShutdown = (signal: string) => {
             logger.info(`${signal} received, shutting down gracefully...`);
             
-            server.close((err: any) => {
+            server.close(async (err: any) => {
                 if (err) {
                     console.error('❌ SERVER: Error during server shutdown:', err);
                     logger.error('Error during server shutdown:', err);
                 }
                 
                 try {
+                    await commands.stop();
                     botService.stopPolling();
+                    botService.stopHolderRefresh();
+                    riskMonitor.stop();
+                    competitions.stop();
+                    await botService.stopLogSubscription();
+                    // Anything still queued is persisted below and sent after the restart
+                    telegram.outbox.stop();
                     logger.info('Bot service stopped');
                 } catch (error: any) {
                     logger.error('Error stopping bot service:', error);
                 }
+
+                try {
+                    await storage.flush();
+                    logger.info('State persisted');
+                } catch (error: any) {
+                    logger.error('Error persisting state:', error);
+                }
                 logger.info('Graceful shutdown completed');
                 process.exit(0);
             });
@@ -0,0 +1,141 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it, jest } from '@jest/globals';
+import TransactionParser, { USDC_MINT, WSOL_MINT } from '../parser';
+import tokenRegistry from '../tokenRegistry';
+
+jest.mock('../../utils/logger', () => ({
+    __esModule: true,
+    default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const MINT = '7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr';
+const BUYER = '5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9';
+const OTHER_WALLET = 'GunNdqZ8ppumLmVScpYxJeiDT2bYE6v4rnDm6grjh35c';
+
+// Hand-built in the /v0/transactions response shape, not recorded from Helius
+function loadFixture(name: string) {
+    const payload = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', `${name}.json`), 'utf8'));
+    return payload[0];
+}
+
+describe('TransactionParser', () => {
+    const token = tokenRegistry.get(MINT)!;
+
+    describe('parseSwapDetails', () => {
+        it('reports the USDC input of a USDC→SOL→TOKEN route, not the intermediate SOL hop', () => {
+            const transaction = loadFixture('jupiter-usdc-sol-token');
+            const details = TransactionParser.parseSwapDetails(transaction.events.swap, token, BUYER);
+
+            expect(details).toEqual({
+                quoteMint: USDC_MINT,
+                quoteAmount: 25,
+                tokens: 41250.5,
+                type: 'BUY',
+            });
+        });
+
+        it('nets every leg of a split multi-hop route', () => {
+            const transaction = loadFixture('multi-leg-swap');
+            const details = TransactionParser.parseSwapDetails(transaction.events.swap, token, BUYER);
+
+            expect(details?.type).toBe('BUY');
+            expect(details?.quoteMint).toBe(WSOL_MINT);
+            expect(details?.quoteAmount).toBeCloseTo(2, 9);
+            expect(details?.tokens).toBe(1330000);
+        });
+
+        it('reads native SOL received on a sell', () => {
+            const transaction = loadFixture('native-sol-sell');
+            const details = TransactionParser.parseSwapDetails(transaction.events.swap, token, BUYER);
+
+            expect(details).toEqual({
+                quoteMint: WSOL_MINT,
+                quoteAmount: 1.25,
+                tokens: 500000,
+                type: 'SELL',
+            });
+        });
+    });
+
+    describe('netSwapLegs', () => {
+        it('cancels out the intermediate SOL of a routed swap', () => {
+            const transaction = loadFixture('jupiter-usdc-sol-token');
+            const deltas = TransactionParser.netSwapLegs(transaction.events.swap.innerSwaps);
+
+            expect(deltas.get(USDC_MINT)).toBe(-25);
+            expect(deltas.get(WSOL_MINT)).toBeCloseTo(0, 12);
+            expect(deltas.get(MINT)).toBe(41250.5);
+        });
+
+        it('ignores legs attributed to other accounts when an owner is given', () => {
+            const transaction = loadFixture('native-sol-sell');
+            const deltas = TransactionParser.netSwapLegs([transaction.events.swap], OTHER_WALLET);
+
+            expect(deltas.size).toBe(0);
+        });
+    });
+
+    describe('getTokenBalanceChange', () => {
+        it.each([
+            ['jupiter-usdc-sol-token', 41250.5],
+            ['multi-leg-swap', 1330000],
+            ['native-sol-sell', -500000],
+        ])('reads the buyer\'s own change from accountData for %s', (name, change) => {
+            expect(TransactionParser.getTokenBalanceChange(loadFixture(name), BUYER, MINT)).toBe(change);
+        });
+
+        it('returns null for a wallet the payload lists no change for', () => {
+            expect(TransactionParser.getTokenBalanceChange(loadFixture('native-sol-sell'), OTHER_WALLET, MINT)).toBeNull();
+        });
+    });
+
+    describe('opensTokenAccount', () => {
+        it('is false when the buyer\'s token account already existed', () => {
+            expect(TransactionParser.opensTokenAccount(loadFixture('jupiter-usdc-sol-token'), BUYER, MINT)).toBe(false);
+        });
+
+        it('is true when the buyer\'s token account is funded with rent in the same transaction', () => {
+            const transaction = loadFixture('jupiter-usdc-sol-token');
+            const tokenAccount = transaction.accountData.find((account: any) =>
+                account.tokenBalanceChanges.some((change: any) => change.mint === MINT));
+            tokenAccount.nativeBalanceChange = 2039280;
+
+            expect(TransactionParser.opensTokenAccount(transaction, BUYER, MINT)).toBe(true);
+        });
+    });
+
+    describe('parseHeliusTransaction', () => {
+        it.each([
+            ['jupiter-usdc-sol-token', 'BUY', 'USDC', 25, 0, 41250.5],
+            ['native-sol-sell', 'SELL', 'SOL', 1.25, 1.25, 500000],
+        ])('builds the trade for %s', (name, type, quoteSymbol, quoteAmount, amountSol, tokens) => {
+            const trade = TransactionParser.parseHeliusTransaction(loadFixture(name));
+
+            expect(trade).toMatchObject({
+                mint: MINT,
+                symbol: 'POPCAT',
+                buyer: BUYER,
+                type,
+                quoteSymbol,
+                quoteAmount,
+                // Stablecoin quotes get their SOL value later, from normalizeQuote()
+                amountSol,
+                tokensBought: tokens,
+            });
+        });
+
+        it('falls back to balance changes when the swap event does not parse', () => {
+            const transaction = loadFixture('native-sol-sell');
+            transaction.events.swap = { nativeInput: null, nativeOutput: null, tokenInputs: [], tokenOutputs: [], innerSwaps: [] };
+            const before = { ...TransactionParser.parsePaths };
+
+            const trade = TransactionParser.parseHeliusTransaction(transaction);
+
+            expect(trade).toMatchObject({ mint: MINT, buyer: BUYER, type: 'SELL', quoteSymbol: 'SOL', tokensBought: 500000 });
+            expect(trade?.quoteAmount).toBeCloseTo(1.25, 4);
+            expect(TransactionParser.parsePaths.balanceChanges).toBe(before.balanceChanges + 1);
+            expect(TransactionParser.parsePaths.unparsed).toBe(before.unparsed);
+        });
+    });
+});
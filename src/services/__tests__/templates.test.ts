@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import templates from '../templates';
+
+jest.mock('../../utils/logger', () => ({
+    __esModule: true,
+    default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('TemplateService.render', () => {
+    const defaults = templates.templates;
+
+    afterEach(() => {
+        templates.templates = defaults;
+    });
+
+    it('removes lines left empty by blank placeholders', () => {
+        templates.templates = { ...defaults, risk: '{emoji} **{title}**\n\n{details}\n\n{link}\n⏰ {time}' };
+
+        expect(templates.render('risk', { emoji: '🔻', title: 'Large sell', details: 'Sold 5 SOL', link: '', time: '12:00' }))
+            .toBe('🔻 **Large sell**\n\nSold 5 SOL\n\n⏰ 12:00');
+    });
+
+    it('keeps the indentation operators gave their lines', () => {
+        templates.templates = { ...defaults, batchLine: '  • {amount} SOL\n    via {dex} {buyer}' };
+
+        expect(templates.render('batchLine', { amount: '1.5', dex: 'Raydium', buyer: '' }))
+            .toBe('  • 1.5 SOL\n    via Raydium');
+    });
+});
@@ -0,0 +1,191 @@
+import logger from '../utils/logger';
+import helius from './helius';
+import telegram from './telegram';
+import botService from './botService';
+import tokenRegistry from './tokenRegistry';
+import { TokenConfig } from '../types';
+
+// getSignaturesForAddress and /v0/transactions maximums
+const PAGE_SIZE = 1000;
+const TRANSACTION_BATCH = 100;
+// Upper bound on pages walked to reach the end of a historical range
+const MAX_SEEK_PAGES = 200;
+
+interface BackfillOptions {
+    // Limits the backfill to one token; every tracked token otherwise
+    mint?: string;
+    // Time range, unix seconds
+    from?: number;
+    to?: number;
+    // Signature range, both exclusive: history after `fromSignature` and before `toSignature`
+    fromSignature?: string;
+    toSignature?: string;
+    // Post a "while we were away" summary per token instead of recording silently
+    announce?: boolean;
+    maxPages?: number;
+}
+
+interface BackfillResult {
+    mint: string;
+    symbol: string;
+    scanned: number;
+    recorded: number;
+    buys: number;
+    sells: number;
+    buyVolume: number;
+    sellVolume: number;
+    whales: number;
+    // False when the page limit was hit before reaching the start of the range
+    complete: boolean;
+    firstTradeAt: string | null;
+    lastTradeAt: string | null;
+}
+
+// Accepts unix seconds, unix milliseconds or anything Date.parse understands
+function parseTime(value: unknown) {
+    if (value === undefined || value === null || value === '') return undefined;
+
+    const numeric = typeof value === 'number' ? value : Number(value);
+    if (!isNaN(numeric)) {
+        return numeric > 1e12 ? Math.floor(numeric / 1000) : Math.floor(numeric);
+    }
+
+    const parsed = typeof value === 'string' ? Date.parse(value) : NaN;
+    if (isNaN(parsed)) {
+        throw new Error(`Invalid time: ${value}`);
+    }
+    return Math.floor(parsed / 1000);
+}
+
+class BackfillService {
+    isRunning: boolean;
+    constructor() {
+        this.isRunning = false;
+    }
+
+    async run(options: BackfillOptions = {}) {
+        if (this.isRunning) {
+            throw new Error('A backfill is already running');
+        }
+        if (options.from !== undefined && options.to !== undefined && options.from > options.to) {
+            throw new Error('`from` must be before `to`');
+        }
+
+        const tokens = options.mint ? [tokenRegistry.get(options.mint)] : tokenRegistry.all();
+        if (tokens.some(token => !token)) {
+            throw new Error(`Unknown token: ${options.mint}`);
+        }
+
+        this.isRunning = true;
+        try {
+            const results: BackfillResult[] = [];
+            for (const token of tokens as TokenConfig[]) {
+                results.push(await this.backfillToken(token, options));
+            }
+            return results;
+        } finally {
+            this.isRunning = false;
+        }
+    }
+
+    private async backfillToken(token: TokenConfig, options: BackfillOptions) {
+        const result: BackfillResult = {
+            mint: token.mintAddress,
+            symbol: token.symbol,
+            scanned: 0,
+            recorded: 0,
+            buys: 0,
+            sells: 0,
+            buyVolume: 0,
+            sellVolume: 0,
+            whales: 0,
+            complete: false,
+            firstTradeAt: null,
+            lastTradeAt: null,
+        };
+
+        const { signatures, complete } = await this.collectSignatures(token, options);
+        result.complete = complete;
+        result.scanned = signatures.length;
+
+        const unseen = signatures.filter(signature => !botService.processedTxCache.has(signature));
+        logger.info(`Backfilling ${token.symbol}: ${unseen.length}/${signatures.length} signature(s) not yet processed`);
+        if (unseen.length === 0) return result;
+
+        const transactions: any[] = [];
+        for (let i = 0; i < unseen.length; i += TRANSACTION_BATCH) {
+            const batch = unseen.slice(i, i + TRANSACTION_BATCH);
+            transactions.push(...await botService.queueRequest(() => helius.getTransactions(batch)));
+        }
+        transactions.sort((a: any, b: any) => (a.slot ?? 0) - (b.slot ?? 0));
+
+        for (const transaction of transactions) {
+            // Signatures without a block time can't be bounded while paging, so check again here
+            if (options.to !== undefined && transaction.timestamp > options.to) continue;
+            if (options.from !== undefined && transaction.timestamp < options.from) continue;
+
+            try {
+                const tradeData = await botService.recordTransaction(transaction);
+                if (!tradeData || tradeData.mint !== token.mintAddress) continue;
+
+                telegram.recordTrade(tradeData);
+                result.recorded++;
+                if (tradeData.type === 'SELL') {
+                    result.sells++;
+                    result.sellVolume += tradeData.amountSol;
+                } else {
+                    result.buys++;
+                    result.buyVolume += tradeData.amountSol;
+                }
+                if (tradeData.isWhale) result.whales++;
+
+                const at = tradeData.timestamp.toISOString();
+                result.firstTradeAt = result.firstTradeAt || at;
+                result.lastTradeAt = at;
+            } catch (error: any) {
+                logger.error(`Backfill failed for ${transaction.signature}: ${error.message}`);
+            }
+        }
+
+        logger.info(`Backfilled ${result.recorded} ${token.symbol} trade(s)${complete ? '' : ' (range truncated by page limit)'}`);
+
+        if (options.announce && result.recorded > 0) {
+            await telegram.sendBackfillSummary(result);
+        }
+        return result;
+    }
+
+    // Pages back one rate-limited request at a time, newest first. Pages entirely after `to` only
+    // seek toward the range, so they don't count against `maxPages`
+    private async collectSignatures(token: TokenConfig, options: BackfillOptions) {
+        const maxPages = options.maxPages ?? 50;
+        const signatures: string[] = [];
+        let before = options.toSignature;
+        let pages = 0;
+        let seekPages = 0;
+
+        while (true) {
+            const page = await botService.queueRequest(() => helius.getSignaturesSince(token.mintAddress, options.fromSignature, {
+                ...(before ? { before } : {}),
+                ...(options.from !== undefined ? { since: options.from } : {}),
+                ...(options.to !== undefined ? { to: options.to } : {}),
+                pageSize: PAGE_SIZE,
+                maxPages: 1,
+            }));
+            // Each page is older than the last
+            signatures.unshift(...page.signatures);
+
+            if (page.complete || !page.oldest) return { signatures, complete: true };
+
+            const isSeek = page.signatures.length === 0 && page.skipped > 0;
+            if (isSeek ? ++seekPages >= MAX_SEEK_PAGES : ++pages >= maxPages) {
+                return { signatures, complete: false };
+            }
+            before = page.oldest;
+        }
+    }
+}
+
+export type { BackfillOptions, BackfillResult };
+export { parseTime };
+export default new BackfillService();
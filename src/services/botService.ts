@@ -4,49 +4,79 @@ import TransactionParser from './parser';
 import SimpleCache from '../utils/cache';
 import config from '../config';
 import logger from '../utils/logger';
+import tokenRegistry from './tokenRegistry';
+import storage from './storage';
+import templates from './templates';
+import logSubscriber from './logSubscriber';
+import walletProfiles from './walletProfiles';
+import walletLabels from './walletLabels';
+import { accountUrl, txUrl } from './explorers';
+import tradeFlags from './tradeFlags';
+import riskMonitor from './riskMonitor';
+import requestQueue from './requestQueue';
+import competitions from './competitions';
+import { PollGap, TradeData, TradeFlag } from '../types';
 
 class BotService {
     processedTxCache: SimpleCache;
-    batchQueue: Map<number, any[]>;
+    batchQueue: Map<string, TradeData[]>;
+    botTradeQueue: Map<string, TradeData[]>;
     isPolling: boolean;
+    isPollInFlight: boolean;
+    isPaused: boolean;
     pollingInterval: any;
-    
-    private requestQueue: Array<() => Promise<void>> = [];
-    private requestsThisMinute = 0;
-    private requestWindowStart = Date.now();
-    private isProcessingQueue = false;
+    holderRefreshInterval: any;
+    holderCounts: Map<string, { count: number; updatedAt: number }>;
+    webhookId: string | null;
 
     constructor() {
         this.processedTxCache = new SimpleCache(config.features.maxCacheSize);
         this.batchQueue = new Map();
+        this.botTradeQueue = new Map();
         this.isPolling = false;
-        
-        setInterval(() => {
-            this.requestsThisMinute = 0;
-            this.requestWindowStart = Date.now();
-            this.processRequestQueue();
-        }, 60000);
+        this.isPollInFlight = false;
+        this.isPaused = false;
+        this.holderCounts = new Map();
+        this.webhookId = null;
+    }
+
+    // Rehydrate dedup cache and stats from storage; must run after storage.load()
+    restoreState() {
+        const signatures = storage.getSignatures().slice(-config.features.maxCacheSize);
+        for (const signature of signatures) {
+            this.processedTxCache.set(signature, Date.now());
+        }
+        telegram.restoreStats();
+        logger.info(`Restored ${signatures.length} processed signatures from storage`);
     }
 
     async initialize() {
         logger.info('Initializing bot service...');
         
-        // EMERGENCY FIX: Don't set up webhook on startup if we have webhook URL
-        // Just assume it's already set up or will be set up manually
-        if (config.helius.webhookUrl) {
-            logger.info('Webhook mode enabled - assuming webhook is already configured');
-            logger.info('If webhook needs setup, use POST /setup-webhook endpoint manually');
-            
-            // Don't fail startup if webhook setup fails
-            // this.setupWebhookLater();
+        if (config.features.ingestionMode === 'webhook') {
+            if (config.helius.manageWebhook) {
+                logger.info('Webhook mode enabled - reconciling Helius webhook in the background');
+                this.ensureWebhookLater();
+            } else {
+                logger.info('Webhook mode enabled - MANAGE_WEBHOOK=false, leaving the Helius webhook as is');
+            }
             
-        } else if (config.features.enablePolling) {
+        } else if (config.features.ingestionMode === 'polling') {
             logger.info('Using polling mode - webhook not configured');
             this.startPolling();
+        } else if (config.features.ingestionMode === 'websocket') {
+            logger.info('Using WebSocket log subscription mode');
+            // Connecting can hang on a bad endpoint; the watchdog will retry, so don't block startup
+            this.startLogSubscription().catch((error: any) => {
+                logger.error('Failed to start log subscription:', error.message);
+            });
         } else {
             logger.warn('Neither webhook nor polling configured - bot will only process manual webhook calls');
         }
         
+        this.startHolderRefresh();
+        riskMonitor.start();
+
         // Send startup message
         try {
             await telegram.sendStartupMessage();
@@ -58,87 +88,121 @@ class BotService {
         logger.info('Bot service initialized successfully');
     }
 
-    // Optional: Try to setup webhook after startup (non-blocking)
-    private setupWebhookLater() {
-        setTimeout(async () => {
-            try {
-                logger.info('Attempting delayed webhook setup...');
-                await this.queueRequest(() => helius.setupWebhook());
-                logger.info('Delayed webhook setup completed successfully');
-            } catch (error: any) {
-                logger.warn('Delayed webhook setup failed - use /setup-webhook endpoint manually:', error.message);
-            }
-        }, 30000); // Wait 30 seconds after startup
+    // Reconciles the webhook without holding up startup; a failure leaves /setup-webhook as the fallback
+    private ensureWebhookLater() {
+        this.queueRequest(() => helius.ensureWebhook())
+            .then(({ action, webhook }) => {
+                this.webhookId = webhook.webhookID;
+                logger.info(`Helius webhook ${webhook.webhookID} ${action}`);
+            })
+            .catch((error: any) => {
+                logger.warn('Webhook reconciliation failed - use POST /setup-webhook to retry:', error.message);
+            });
     }
 
-    private async queueRequest<T>(request: () => Promise<T>): Promise<T> {
-        return new Promise((resolve, reject) => {
-            this.requestQueue.push(async () => {
-                try {
-                    const result = await request();
-                    resolve(result);
-                } catch (error) {
-                    reject(error);
-                }
-            });
-            this.processRequestQueue();
-        });
+    // Counts against MAX_REQUESTS_PER_MINUTE; anything calling Helius on the bot's behalf goes through here
+    queueRequest<T>(request: () => Promise<T>, timeoutMs?: number): Promise<T> {
+        return requestQueue.run(request, timeoutMs);
     }
 
-    private async processRequestQueue() {
-        if (this.isProcessingQueue || this.requestQueue.length === 0) return;
-        
-        const now = Date.now();
-        if (now - this.requestWindowStart > 60000) {
-            this.requestsThisMinute = 0;
-            this.requestWindowStart = now;
+    // Parses, dedupes and stores a transaction without alerting or touching stats
+    async recordTransaction(transaction: any) {
+        if (this.processedTxCache.has(transaction.signature)) {
+            logger.debug(`Skipping duplicate transaction: ${transaction.signature}`);
+            return null;
         }
-        
-        if (this.requestsThisMinute >= config.features.maxRequestsPerMinute) {
-            logger.warn(`Rate limit reached (${this.requestsThisMinute}/${config.features.maxRequestsPerMinute}), queuing requests`);
-            return;
+
+        // Claimed before the first await so a concurrent delivery of the same signature backs off
+        this.processedTxCache.set(transaction.signature, Date.now());
+
+        const parsedTrade = TransactionParser.parseHeliusTransaction(transaction);
+        if (!parsedTrade) {
+            this.processedTxCache.delete(transaction.signature);
+            return null;
         }
-        
-        this.isProcessingQueue = true;
-        const request = this.requestQueue.shift();
-        
-        if (request) {
-            this.requestsThisMinute++;
-            try {
-                await request();
-            } catch (error: any) {
-                logger.error('Queued request failed:', error);
-            }
-            
-            setTimeout(() => {
-                this.isProcessingQueue = false;
-                this.processRequestQueue();
-            }, 1000); // Increased delay between requests
-        } else {
-            this.isProcessingQueue = false;
+
+        // USDC/USDT-quoted trades are converted to SOL/USD before thresholds and stats apply
+        let tradeData: TradeData;
+        try {
+            tradeData = await TransactionParser.normalizeQuote(parsedTrade);
+        } catch (error) {
+            this.processedTxCache.delete(transaction.signature);
+            throw error;
         }
+
+        storage.addSignature(transaction.signature);
+        storage.addTrade(tradeData);
+        walletProfiles.record(tradeData);
+        return tradeData;
     }
 
     async processTransaction(transaction: any) {
-        if (this.processedTxCache.has(transaction.signature)) {
-            logger.debug(`Skipping duplicate transaction: ${transaction.signature}`);
+        const tradeData = await this.recordTransaction(transaction);
+        if (!tradeData) {
             return false;
         }
 
-        const tradeData = TransactionParser.parseHeliusTransaction(transaction);
-        if (!tradeData) {
-            return false;
+        // Risk checks see every trade, including ones filtered from the channel below
+        riskMonitor.onTrade(tradeData).catch((error: any) => {
+            logger.warn(`Risk check failed for ${tradeData.signature}: ${error.message}`);
+        });
+        competitions.onTrade(tradeData);
+
+        if (config.features.botTradeAction !== 'off') {
+            tradeData.flags = await tradeFlags.classifyWithin(tradeData);
+        }
+
+        // At most one balance lookup per trade, shared by everything below; a failed one stays null
+        let position: Promise<number | null> | undefined;
+        const getPosition = () => position ??= walletProfiles.getPosition(tradeData);
+
+        // Watched wallets are reported on every trade, ahead of size filters and pause
+        if (walletLabels.isWatched(tradeData.buyer)) {
+            telegram.sendWatchlistAlert(tradeData, await getPosition());
         }
         
-        this.processedTxCache.set(transaction.signature, Date.now());
-        
+        if (this.isBelowMinimumBuy(tradeData)) {
+            telegram.recordTrade(tradeData);
+            logger.debug(`Skipping alert for dust buy ${tradeData.signature} (${tradeData.amountSol} SOL)`);
+            return true;
+        }
+
+        if (!this.shouldAlert(tradeData)) {
+            telegram.recordTrade(tradeData);
+            logger.debug(`Alert mode filtered ${tradeData.type} ${tradeData.signature} (${tradeData.amountSol} SOL)`);
+            return true;
+        }
+
+        if (this.isPaused) {
+            telegram.recordTrade(tradeData);
+            logger.debug(`Alerts paused, recorded ${tradeData.signature} without notifying`);
+            return true;
+        }
+
+        if (tradeData.flags?.length && config.features.botTradeAction === 'suppress') {
+            telegram.recordTrade(tradeData);
+            logger.debug(`Suppressed ${tradeFlags.label(tradeData.flags)} alert for ${tradeData.signature}`);
+            return true;
+        }
+
+        if (tradeData.flags?.length && config.features.botTradeAction === 'aggregate') {
+            telegram.recordTrade(tradeData);
+            this.queueBotTrade(tradeData);
+            return true;
+        }
+
+        tradeData.isNewHolder = await this.detectNewHolder(tradeData, getPosition);
+        if (config.features.walletProfiles) {
+            tradeData.walletProfile = await walletProfiles.getProfile(tradeData, await getPosition());
+        }
+
         if (config.features.batchWindow > 0) {
             return this.handleBatchedNotification(tradeData);
         }
 
-        // Send notification without token metrics to avoid rate limits
+        // Holder counts come from the background refresh, never a per-trade lookup
         try {
-            await telegram.sendTradeNotification(tradeData, { totalHolders: 0 });
+            await telegram.sendTradeNotification(tradeData, { totalHolders: this.getHolderCount(tradeData.mint) });
             logger.info(`Processed transaction: ${tradeData.signature} (${tradeData.amountSol} SOL)`);
         } catch (error: any) {
             logger.error('Failed to send trade notification:', error.message);
@@ -147,6 +211,75 @@ class BotService {
         return true;
     }
 
+    isBelowMinimumBuy(tradeData: TradeData) {
+        const token = tokenRegistry.get(tradeData.mint);
+        if (!token || tradeData.type !== 'BUY') return false;
+
+        if (token.minBuySol > 0 && tradeData.amountSol < token.minBuySol) return true;
+
+        // Without a price we can't judge USD size, so let the alert through
+        if (token.minBuyUsd > 0 && tradeData.amountUsd > 0 && tradeData.amountUsd < token.minBuyUsd) return true;
+
+        return false;
+    }
+
+    shouldAlert(tradeData: TradeData) {
+        const token = tokenRegistry.get(tradeData.mint);
+        if (!token || tradeData.type !== 'SELL') return true;
+
+        switch (token.alertMode) {
+            case 'buys':
+                return false;
+            case 'large_sells':
+                return tradeData.amountSol >= token.sellAlertThreshold;
+            default:
+                return true;
+        }
+    }
+
+    // A buyer is new if they held nothing before this buy
+    async detectNewHolder(tradeData: TradeData, getPosition: () => Promise<number | null>) {
+        if (!config.features.detectNewHolders || tradeData.type !== 'BUY' || tradeData.tokensBought <= 0) {
+            return false;
+        }
+        return (await walletProfiles.isNewHolder(tradeData, getPosition)) === true;
+    }
+
+    startHolderRefresh() {
+        if (config.features.holderRefreshInterval <= 0 || this.holderRefreshInterval) return;
+
+        const refresh = async () => {
+            for (const mintAddress of tokenRegistry.mints()) {
+                try {
+                    const metrics = await this.queueRequest(() => helius.getTokenMetrics(mintAddress));
+                    // getTokenMetrics reports 0 on failure; keep the last good value instead
+                    if (metrics.totalHolders > 0) {
+                        this.holderCounts.set(mintAddress, { count: metrics.totalHolders, updatedAt: Date.now() });
+                        telegram.setHolderCount(mintAddress, metrics.totalHolders);
+                        logger.debug(`Holder count for ${mintAddress}: ${metrics.totalHolders}`);
+                    }
+                } catch (error: any) {
+                    logger.warn(`Holder refresh failed for ${mintAddress}: ${error.message}`);
+                }
+            }
+        };
+
+        setTimeout(refresh, 10000); // Let startup traffic settle first
+        this.holderRefreshInterval = setInterval(refresh, config.features.holderRefreshInterval);
+        logger.info(`Refreshing holder counts every ${config.features.holderRefreshInterval}ms`);
+    }
+
+    stopHolderRefresh() {
+        if (this.holderRefreshInterval) {
+            clearInterval(this.holderRefreshInterval);
+            this.holderRefreshInterval = null;
+        }
+    }
+
+    getHolderCount(mintAddress: string) {
+        return this.holderCounts.get(mintAddress)?.count || 0;
+    }
+
     async processWebhookData(transactions: any) {
         if (!Array.isArray(transactions)) {
             throw new Error('Invalid webhook payload format');
@@ -182,15 +315,13 @@ class BotService {
         logger.info(`Starting polling every ${config.features.pollingInterval}ms`);
 
         const poll = async () => {
-            if (!this.isPolling) return;
+            // A catch-up after downtime can outlast the interval; never run two polls at once
+            if (!this.isPolling || this.isPollInFlight) return;
+            this.isPollInFlight = true;
             
             try {
-                const transactions = await this.queueRequest(() => 
-                    helius.getRecentTransactions(3) // Reduced to 3 transactions
-                );
-                
-                for (const transaction of transactions) {
-                    await this.processTransaction(transaction);
+                for (const mintAddress of tokenRegistry.mints()) {
+                    await this.pollMint(mintAddress);
                 }
                 
             } catch (error: any) {
@@ -205,6 +336,8 @@ class BotService {
                     }, 120000); // 2 minute pause
                     return;
                 }
+            } finally {
+                this.isPollInFlight = false;
             }
         };
 
@@ -212,6 +345,91 @@ class BotService {
         this.pollingInterval = setInterval(poll, config.features.pollingInterval);
     }
 
+    async startLogSubscription() {
+        await logSubscriber.start(tokenRegistry.watchAddresses(), (signatures) => this.processSignatures(signatures));
+    }
+
+    async stopLogSubscription() {
+        if (logSubscriber.isRunning) {
+            await logSubscriber.stop();
+        }
+    }
+
+    // Fetches and processes signatures we haven't seen yet, oldest first.
+    // `missing` lists the ones Helius didn't return (usually too recent to be indexed yet)
+    async processSignatures(signatures: string[]) {
+        const unseen = signatures.filter(signature => !this.processedTxCache.has(signature));
+        if (unseen.length === 0) return { processed: 0, missing: [] };
+
+        const transactions = await this.queueRequest(() => helius.getTransactions(unseen));
+        const returned = new Set(transactions.map((transaction: any) => transaction.signature));
+        const missing = unseen.filter(signature => !returned.has(signature));
+        // /v0/transactions doesn't guarantee order, so sort to keep alerts chronological
+        transactions.sort((a: any, b: any) => (a.slot ?? 0) - (b.slot ?? 0));
+
+        let processedCount = 0;
+        for (const transaction of transactions) {
+            try {
+                if (await this.processTransaction(transaction)) processedCount++;
+            } catch (error: any) {
+                logger.error(`Error processing transaction ${transaction.signature}:`, error);
+            }
+        }
+        return { processed: processedCount, missing };
+    }
+
+    // Pages from the persisted cursor up to the tip so bursts between polls aren't missed.
+    // If the page cap stops short of the cursor, the unfetched stretch is kept as a gap and
+    // worked down on later polls, so falling behind delays old trades instead of dropping them
+    async pollMint(mintAddress: string) {
+        const cursor = storage.getCursor(mintAddress);
+
+        const { signatures, complete, oldest } = await this.queueRequest(() =>
+            cursor
+                ? helius.getSignaturesSince(mintAddress, cursor)
+                // First run: start from the last few trades rather than replaying all history
+                : helius.getSignaturesSince(mintAddress, undefined, { pageSize: 10, maxPages: 1 })
+        );
+
+        if (signatures.length > 0) {
+            await this.processSignatures(signatures);
+        }
+
+        const gaps = storage.getPollGaps(mintAddress);
+        if (cursor && !complete && oldest) {
+            logger.warn(`Polling for ${mintAddress} fell behind; older signatures will be fetched on the next polls`);
+            gaps.unshift({ until: cursor, before: oldest });
+            storage.setPollGaps(mintAddress, gaps);
+        }
+
+        // Only advance once everything up to the newest signature has been handled
+        const newest = signatures[signatures.length - 1];
+        if (newest) storage.setCursor(mintAddress, newest);
+
+        await this.fillPollGap(mintAddress, gaps);
+    }
+
+    // Fetches one batch of the newest outstanding gap per poll, newest signatures first
+    private async fillPollGap(mintAddress: string, gaps: PollGap[]) {
+        const gap = gaps[0];
+        if (!gap) return;
+
+        const { signatures, complete, oldest } = await this.queueRequest(() =>
+            helius.getSignaturesSince(mintAddress, gap.until, { before: gap.before })
+        );
+        if (signatures.length > 0) {
+            await this.processSignatures(signatures);
+        }
+
+        if (complete || !oldest) {
+            gaps.shift();
+            logger.info(`Caught up on skipped signatures for ${mintAddress}`);
+        } else {
+            gap.before = oldest;
+        }
+        storage.setPollGaps(mintAddress, gaps);
+    }
+
     stopPolling() {
         if (this.pollingInterval) {
             clearInterval(this.pollingInterval);
@@ -221,8 +439,10 @@ class BotService {
         logger.info('Polling stopped');
     }
 
-    handleBatchedNotification(tradeData: any) {
-        const batchKey = Math.floor(Date.now() / (config.features.batchWindow * 1000));
+    handleBatchedNotification(tradeData: TradeData) {
+        // Batches are kept per token so each summary goes to that token's channel
+        const window = Math.floor(Date.now() / (config.features.batchWindow * 1000));
+        const batchKey = `${tradeData.mint}:${window}`;
         
         if (!this.batchQueue.has(batchKey)) {
             this.batchQueue.set(batchKey, []);
@@ -237,43 +457,92 @@ class BotService {
             }, config.features.batchWindow * 1000);
         }
         
+        telegram.recordTrade(tradeData);
         this.batchQueue.get(batchKey)?.push(tradeData);
         return true;
     }
 
-    async processBatch(batch: any[]) {
+    // Flagged trades are rolled into one summary per token every BOT_TRADE_WINDOW seconds
+    queueBotTrade(tradeData: TradeData) {
+        const queued = this.botTradeQueue.get(tradeData.mint);
+        if (queued) {
+            queued.push(tradeData);
+            return;
+        }
+
+        this.botTradeQueue.set(tradeData.mint, [tradeData]);
+        setTimeout(() => {
+            const trades = this.botTradeQueue.get(tradeData.mint) || [];
+            this.botTradeQueue.delete(tradeData.mint);
+            this.sendBotTradeSummary(trades);
+        }, config.features.botTradeWindow * 1000);
+    }
+
+    sendBotTradeSummary(trades: TradeData[]) {
+        const [firstTrade] = trades;
+        if (!firstTrade) return;
+
+        const count = (flag: TradeFlag) => trades.filter(trade => trade.flags?.includes(flag)).length;
+        const volume = (type: TradeData['type']) => trades
+            .filter(trade => trade.type === type)
+            .reduce((sum, trade) => sum + trade.amountSol, 0);
+
+        const message = templates.render('botTrades', {
+            symbol: firstTrade.symbol,
+            count: trades.length,
+            window: config.features.botTradeWindow,
+            snipers: count('sniper'),
+            bundles: count('bundle'),
+            roundTrips: count('roundtrip'),
+            buyVolume: TransactionParser.formatNumber(volume('BUY')),
+            sellVolume: TransactionParser.formatNumber(volume('SELL')),
+        });
+
+        telegram.queueMessage(telegram.getChannelId(firstTrade.mint), message, {
+            parse_mode: 'Markdown'
+        });
+    }
+
+    async processBatch(batch: TradeData[]) {
+        const [firstTrade] = batch;
+        if (!firstTrade) return;
+
         const totalSol = batch.reduce((sum, trade) => sum + trade.amountSol, 0);
         const totalTokens = batch.reduce((sum, trade) => sum + trade.tokensBought, 0);
         const whaleCount = batch.filter(trade => trade.isWhale).length;
 
-        const message = `
-📦 **Batch Summary (${batch.length} transactions)**
+        const explorer = tokenRegistry.get(firstTrade.mint)?.explorer;
+        const trades = batch.slice(0, 3).map(trade => templates.render('batchLine', {
+            amount: trade.amountSol.toFixed(2),
+            tokens: TransactionParser.formatNumber(trade.tokensBought),
+            symbol: trade.symbol,
+            dex: trade.dex,
+            buyer: trade.buyer,
+            link: txUrl(trade.signature, explorer),
+            walletLink: accountUrl(trade.buyer, explorer),
+        }));
 
-💰 **Total Volume**: ${totalSol.toFixed(4)} SOL
-🪙 **Total Tokens**: ${TransactionParser.formatNumber(totalTokens)} ${config.token.symbol}
-🐋 **Whales**: ${whaleCount}
-⏰ **Window**: ${config.features.batchWindow}s
-
-${batch.slice(0, 3).map(trade => 
-    `• ${trade.amountSol.toFixed(2)} SOL (${trade.dex})`
-).join('\n')}
-${batch.length > 3 ? `\n... and ${batch.length - 3} more` : ''}
-        `.trim();
+        const message = templates.render('batch', {
+            count: batch.length,
+            symbol: firstTrade.symbol,
+            amount: totalSol.toFixed(4),
+            tokens: TransactionParser.formatNumber(totalTokens),
+            whales: whaleCount,
+            window: config.features.batchWindow,
+            trades: trades.join('\n'),
+            more: batch.length > 3 ? `\n\n... and ${batch.length - 3} more` : '',
+        });
 
-        try {
-            await telegram.bot.sendMessage(config.telegram.channelId, message, {
-                parse_mode: 'Markdown'
-            });
-        } catch (error: any) {
-            logger.error('Failed to send batch notification:', error.message);
-        }
+        telegram.queueMessage(telegram.getChannelId(firstTrade.mint), message, {
+            parse_mode: 'Markdown'
+        });
     }
 
-    // Add method to manually setup webhook
     async setupWebhookManually() {
         try {
-            const result = await helius.setupWebhook();
-            logger.info('Manual webhook setup completed:', result);
+            const result = await helius.ensureWebhook();
+            this.webhookId = result.webhook.webhookID;
+            logger.info(`Manual webhook setup completed: ${result.webhook.webhookID} ${result.action}`);
             return result;
         } catch (error: any) {
             logger.error('Manual webhook setup failed:', error);
@@ -281,14 +550,54 @@ ${batch.length > 3 ? `\n... and ${batch.length - 3} more` : ''}
         }
     }
 
+    pause() {
+        this.isPaused = true;
+        logger.info('Trade alerts paused');
+    }
+
+    resume() {
+        this.isPaused = false;
+        logger.info('Trade alerts resumed');
+    }
+
+    // Updates the whale threshold for one token, or every tracked token when no mint is given
+    setWhaleThreshold(thresholdSol: number, mintAddress?: string) {
+        const tokens = mintAddress
+            ? [tokenRegistry.get(mintAddress)].filter(token => !!token)
+            : tokenRegistry.all();
+
+        for (const token of tokens) {
+            token.whaleThreshold = thresholdSol;
+        }
+        logger.info(`Whale threshold set to ${thresholdSol} SOL for ${tokens.map(t => t.symbol).join(', ')}`);
+        return tokens;
+    }
+
     getStatus() {
         return {
+            ingestionMode: config.features.ingestionMode,
             isPolling: this.isPolling,
+            logSubscription: logSubscriber.getStatus(),
+            isPaused: this.isPaused,
             processedTransactions: this.processedTxCache.size(),
             batchQueueSize: this.batchQueue.size,
-            requestsThisMinute: this.requestsThisMinute,
-            queuedRequests: this.requestQueue.length,
+            requestsThisMinute: requestQueue.requestsThisMinute,
+            queuedRequests: requestQueue.size(),
+            holders: Object.fromEntries(
+                [...this.holderCounts].map(([mint, { count, updatedAt }]) => [mint, { count, updatedAt: new Date(updatedAt).toISOString() }])
+            ),
             webhookConfigured: !!config.helius.webhookUrl,
+            webhookId: this.webhookId,
+            trackedTokens: tokenRegistry.mints(),
+            walletLabels: walletLabels.labels.size,
+            watchedWallets: walletLabels.watched().length,
+            storageBackend: storage.backend.name,
+            outbox: telegram.outbox.getStatus(),
+            parserPaths: { ...TransactionParser.parsePaths },
+            botTradeAction: config.features.botTradeAction,
+            flaggedTrades: { ...tradeFlags.counters },
+            riskAlerts: { ...riskMonitor.counters },
+            competitions: competitions.getStatus(),
             stats: telegram.getStats()
         };
     }
@@ -0,0 +1,238 @@
+import TelegramBot from 'node-telegram-bot-api';
+import config from '../config';
+import logger from '../utils/logger';
+import botService from './botService';
+import telegram from './telegram';
+import storage from './storage';
+import tokenRegistry from './tokenRegistry';
+import TransactionParser from './parser';
+import { txUrl } from './explorers';
+import competitions, { parseDuration } from './competitions';
+import { parseTime } from './backfill';
+import { CompetitionMetric, CompetitionSellPolicy } from '../types';
+
+type CommandHandler = (msg: TelegramBot.Message, args: string[]) => Promise<string>;
+
+class CommandService {
+    commands: Map<string, CommandHandler>;
+    isRunning: boolean;
+    constructor() {
+        this.isRunning = false;
+        this.commands = new Map<string, CommandHandler>([
+            ['stats', () => this.handleStats()],
+            ['status', () => this.handleStatus()],
+            ['setwhale', (_msg, args) => this.handleSetWhale(args)],
+            ['pause', () => this.handlePause()],
+            ['resume', () => this.handleResume()],
+            ['last', (_msg, args) => this.handleLast(args)],
+            ['contest', (_msg, args) => this.handleContest(args)],
+            ['help', () => this.handleHelp()],
+        ]);
+    }
+
+    async start() {
+        if (!config.telegram.enableCommands) {
+            logger.info('Telegram commands disabled (set TELEGRAM_ENABLE_COMMANDS=true to enable)');
+            return;
+        }
+        if (this.isRunning) return;
+
+        // Matches "/command", "/command@BotName" and any trailing arguments
+        telegram.bot.onText(/^\/(\w+)(?:@\w+)?(?:\s+(.*))?$/, (msg, match) => {
+            this.handleMessage(msg, match).catch((error: any) => {
+                logger.error(`Command handling failed: ${error.message}`);
+            });
+        });
+
+        await telegram.bot.startPolling();
+        this.isRunning = true;
+        logger.info(`Telegram commands enabled for ${config.telegram.adminIds.length} admin(s)`);
+    }
+
+    async stop() {
+        if (!this.isRunning) return;
+        await telegram.bot.stopPolling();
+        this.isRunning = false;
+    }
+
+    isAdmin(msg: TelegramBot.Message) {
+        const userId = msg.from?.id;
+        return userId !== undefined && config.telegram.adminIds.includes(String(userId));
+    }
+
+    async handleMessage(msg: TelegramBot.Message, match: RegExpExecArray | null) {
+        const name = match?.[1]?.toLowerCase();
+        const handler = name ? this.commands.get(name) : undefined;
+        if (!handler) return;
+
+        if (!this.isAdmin(msg)) {
+            logger.warn(`Ignoring /${name} from non-admin user ${msg.from?.id}`);
+            return;
+        }
+
+        const args = (match?.[2] || '').split(/\s+/).filter(Boolean);
+        logger.info(`Admin ${msg.from?.id} ran /${name} ${args.join(' ')}`.trim());
+
+        const reply = await handler(msg, args);
+        await telegram.bot.sendMessage(msg.chat.id, reply, {
+            parse_mode: 'Markdown',
+            disable_web_page_preview: true
+        });
+    }
+
+    async handleStats() {
+        const stats = telegram.getStats();
+        const lines = tokenRegistry.all().map(token => {
+            const tokenStats = stats.tokens[token.mintAddress];
+            return `• **${token.symbol}**: ${TransactionParser.formatNumber(tokenStats?.buyVolume || 0)} SOL bought / ` +
+                `${TransactionParser.formatNumber(tokenStats?.sellVolume || 0)} SOL sold (net ${(tokenStats?.netFlow || 0).toFixed(2)}), ` +
+                `${tokenStats?.transactionCount || 0} trades, ${TransactionParser.formatNumber(tokenStats?.totalHolders || 0, 0)} holders`;
+        });
+
+        return `
+📊 **Bot Stats**
+
+💰 **Total Raised**: ${TransactionParser.formatNumber(stats.totalRaised)} SOL
+🟢 **Buy Volume**: ${TransactionParser.formatNumber(stats.buyVolume)} SOL (${stats.buyCount})
+🔴 **Sell Volume**: ${TransactionParser.formatNumber(stats.sellVolume)} SOL (${stats.sellCount})
+⚖️ **Net Flow**: ${stats.netFlow.toFixed(4)} SOL
+🔄 **Transactions**: ${stats.transactionCount}
+
+${lines.join('\n')}
+        `.trim();
+    }
+
+    async handleStatus() {
+        const status = botService.getStatus();
+        return `
+🤖 **Bot Status**
+
+▶️ **Alerts**: ${status.isPaused ? 'Paused' : 'Active'}
+📥 **Ingestion**: ${status.ingestionMode}
+📡 **Webhook**: ${status.webhookConfigured ? 'Configured' : 'Not configured'}
+🔁 **Polling**: ${status.isPolling ? 'On' : 'Off'}
+🗂 **Processed**: ${status.processedTransactions}
+⏳ **Queued requests**: ${status.queuedRequests}
+⏰ **Uptime**: ${Math.floor(process.uptime() / 60)} min
+        `.trim();
+    }
+
+    async handleSetWhale(args: string[]) {
+        const [amountArg, symbolArg] = args;
+        const threshold = parseFloat(amountArg || '');
+        if (isNaN(threshold) || threshold <= 0) {
+            return 'Usage: `/setwhale <sol> [symbol]`';
+        }
+
+        let mintAddress: string | undefined;
+        if (symbolArg) {
+            const token = tokenRegistry.findBySymbol(symbolArg);
+            if (!token) return `Unknown token: ${symbolArg}`;
+            mintAddress = token.mintAddress;
+        }
+
+        const updated = botService.setWhaleThreshold(threshold, mintAddress);
+        return `🐋 Whale threshold set to **${threshold} SOL** for ${updated.map(t => t.symbol).join(', ')}`;
+    }
+
+    async handlePause() {
+        botService.pause();
+        return '⏸ Trade alerts paused. Trades are still recorded. Use /resume to continue.';
+    }
+
+    async handleResume() {
+        botService.resume();
+        return '▶️ Trade alerts resumed.';
+    }
+
+    async handleLast(args: string[]) {
+        const limit = Math.min(Math.max(parseInt(args[0] || '5', 10) || 5, 1), 20);
+        const trades = storage.getTrades(limit);
+        if (trades.length === 0) return 'No trades recorded yet.';
+
+        const lines = trades.map(trade =>
+            `• ${trade.type} ${trade.amountSol.toFixed(4)} SOL → ${TransactionParser.formatNumber(trade.tokensBought)} ${trade.symbol} ` +
+            `([tx](${txUrl(trade.signature, tokenRegistry.get(trade.mint)?.explorer)}))`
+        );
+        return `🧾 **Last ${trades.length} trades**\n\n${lines.join('\n')}`;
+    }
+
+    // /contest start <symbol> <minSol> <end|duration> [start=<time>] [sells=disqualify|net] [rank=total|largest] [winners=<n>]
+    // /contest board|end|cancel <symbol>, /contest list
+    async handleContest(args: string[]) {
+        const [action = 'list', symbolArg, ...rest] = args;
+        const usage = 'Usage: `/contest start <symbol> <minSol> <end|24h> [start=<time>] [sells=disqualify|net] ' +
+            '[rank=total|largest] [winners=<n>]` or `/contest board|end|cancel <symbol>` or `/contest list`';
+
+        if (action === 'list') {
+            const open = competitions.list().filter(competition => competition.status === 'scheduled' || competition.status === 'active');
+            if (open.length === 0) return 'No competitions scheduled or running.';
+            return `🏆 **Competitions**\n\n${open.map(competition =>
+                `• **${competition.symbol}** (${competition.status}) ${competition.startsAt} → ${competition.endsAt}, ` +
+                `${competition.minBuySol} SOL min, ${competition.metric}, sells ${competition.sellPolicy}`
+            ).join('\n')}`;
+        }
+
+        if (!symbolArg) return usage;
+        const token = tokenRegistry.findBySymbol(symbolArg);
+        if (!token) return `Unknown token: ${symbolArg}`;
+        const open = competitions.getOpen(token.mintAddress);
+
+        if (action === 'start') {
+            const [minArg, endArg, ...optionArgs] = rest;
+            if (!minArg || !endArg) return usage;
+
+            const options = Object.fromEntries(optionArgs.map(option => option.split('=', 2) as [string, string]));
+            try {
+                const startsAt = parseTime(options.start);
+                const duration = parseDuration(endArg);
+                const endsAt = duration === undefined ? parseTime(endArg) : undefined;
+                const competition = competitions.create({
+                    mint: token.mintAddress,
+                    ...(startsAt !== undefined ? { startsAt } : {}),
+                    ...(endsAt !== undefined ? { endsAt } : {}),
+                    ...(duration !== undefined ? { duration } : {}),
+                    minBuySol: parseFloat(minArg),
+                    ...(options.sells ? { sellPolicy: options.sells as CompetitionSellPolicy } : {}),
+                    ...(options.rank ? { metric: options.rank as CompetitionMetric } : {}),
+                    ...(options.winners ? { winners: Number(options.winners) } : {}),
+                });
+                return `🏆 ${token.symbol} competition \`${competition.id}\` ${competition.status === 'active' ? 'started' : 'scheduled'}: ` +
+                    `${competition.startsAt} → ${competition.endsAt}`;
+            } catch (error: any) {
+                return `❌ ${error.message}`;
+            }
+        }
+
+        if (!open) return `No ${token.symbol} competition is scheduled or running.`;
+
+        if (action === 'board') return competitions.renderLeaderboard(open);
+        if (action === 'end') {
+            return competitions.finish(open.id)
+                ? `🏁 ${token.symbol} competition ended, results posted.`
+                : `${token.symbol} competition hasn't started yet; use /contest cancel instead.`;
+        }
+        if (action === 'cancel') {
+            competitions.cancel(open.id);
+            return `🛑 ${token.symbol} competition cancelled.`;
+        }
+        return usage;
+    }
+
+    async handleHelp() {
+        return `
+**Admin commands**
+
+/stats - running totals per token
+/status - bot health
+/setwhale <sol> [symbol] - change whale threshold
+/pause - stop posting alerts
+/resume - resume posting alerts
+/last [n] - most recent trades
+/contest start <symbol> <minSol> <end|24h> [start=, sells=, rank=, winners=] - start a buy competition
+/contest board|end|cancel <symbol> - leaderboard, end early, cancel
+        `.trim();
+    }
+}
+
+export default new CommandService();
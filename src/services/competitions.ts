@@ -0,0 +1,373 @@
+import crypto from 'crypto';
+import config from '../config';
+import logger from '../utils/logger';
+import storage from './storage';
+import telegram from './telegram';
+import templates from './templates';
+import tokenRegistry from './tokenRegistry';
+import TransactionParser from './parser';
+import { Competition, CompetitionEntry, CompetitionMetric, CompetitionSellPolicy, TradeData } from '../types';
+
+const SELL_POLICIES: CompetitionSellPolicy[] = ['disqualify', 'net'];
+const METRICS: CompetitionMetric[] = ['total', 'largest'];
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+// How often start/end times and leaderboard schedules are checked
+const TICK_INTERVAL = 15000;
+// Trades can arrive a little after they happen, so results wait this long past the end time
+const RESULTS_DELAY = 30000;
+// Finished and cancelled competitions kept in storage
+const MAX_HISTORY = 20;
+// Sellers without an entry remembered per competition, so sell spam can't grow storage unbounded
+const MAX_PRESOLD = 5000;
+
+interface CompetitionInput {
+    mint: string;
+    // Unix seconds; defaults to now
+    startsAt?: number;
+    // Unix seconds, or `duration` seconds after the start
+    endsAt?: number;
+    duration?: number;
+    minBuySol: number;
+    sellPolicy?: CompetitionSellPolicy;
+    metric?: CompetitionMetric;
+    winners?: number;
+}
+
+interface Standing {
+    entry: CompetitionEntry;
+    score: number;
+}
+
+// "90m", "2h", "1d" -> seconds; undefined if the value isn't a duration
+function parseDuration(value: unknown) {
+    const match = typeof value === 'string' ? /^(\d+(?:\.\d+)?)([smhd])$/.exec(value.trim()) : null;
+    if (!match) return undefined;
+    const unit = { s: 1, m: 60, h: 3600, d: 86400 }[match[2] as 's' | 'm' | 'h' | 'd'];
+    return Math.round(parseFloat(match[1] || '0') * unit);
+}
+
+function formatDuration(ms: number) {
+    const minutes = Math.max(Math.ceil(ms / 60000), 0);
+    const days = Math.floor(minutes / 1440);
+    const hours = Math.floor((minutes % 1440) / 60);
+    const parts = [days && `${days}d`, hours && `${hours}h`, `${minutes % 60}m`].filter(Boolean);
+    return parts.join(' ');
+}
+
+function emptyEntry(wallet: string): CompetitionEntry {
+    return { wallet, buys: 0, bought: 0, largestBuy: 0, sells: 0, sold: 0, disqualified: false };
+}
+
+// "Biggest buy wins" contests: tracks qualifying trades per wallet, posts the leaderboard
+// to the token's channel on a schedule and announces the winners when time is up
+class CompetitionService {
+    competitions: Competition[];
+    isRunning: boolean;
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor() {
+        this.competitions = [];
+        this.isRunning = false;
+    }
+
+    // Must run after storage.load(); picks up where a restart left off
+    start() {
+        if (this.isRunning) return;
+
+        this.competitions = storage.getCompetitions();
+        this.isRunning = true;
+
+        const open = this.competitions.filter(competition => this.isOpen(competition)).length;
+        if (open > 0) logger.info(`Restored ${open} open competition(s)`);
+        this.tick();
+        this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+    }
+
+    stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+        this.isRunning = false;
+    }
+
+    list() {
+        return [...this.competitions];
+    }
+
+    get(id: string) {
+        return this.competitions.find(competition => competition.id === id);
+    }
+
+    // The scheduled or running competition for a token, if any
+    getOpen(mintAddress: string) {
+        return this.competitions.find(competition => competition.mint === mintAddress && this.isOpen(competition));
+    }
+
+    create(input: CompetitionInput) {
+        const token = tokenRegistry.get(input.mint);
+        if (!token) {
+            throw new Error(`Token ${input.mint} is not tracked`);
+        }
+        if (this.getOpen(token.mintAddress)) {
+            throw new Error(`${token.symbol} already has a competition scheduled or running`);
+        }
+
+        const now = Date.now();
+        const startsAt = input.startsAt !== undefined ? input.startsAt * 1000 : now;
+        const endsAt = input.endsAt !== undefined
+            ? input.endsAt * 1000
+            : startsAt + (input.duration ?? NaN) * 1000;
+        const sellPolicy = input.sellPolicy ?? config.features.competitionSellPolicy;
+        const metric = input.metric ?? 'total';
+        const winners = input.winners ?? config.features.competitionWinners;
+
+        if (isNaN(startsAt) || isNaN(endsAt) || endsAt <= Math.max(startsAt, now)) {
+            throw new Error('The end time must be in the future and after the start time');
+        }
+        if (!(input.minBuySol >= 0)) {
+            throw new Error('The minimum buy must be a non-negative number of SOL');
+        }
+        if (!SELL_POLICIES.includes(sellPolicy)) {
+            throw new Error(`Sell policy must be one of: ${SELL_POLICIES.join(', ')}`);
+        }
+        if (!METRICS.includes(metric)) {
+            throw new Error(`Ranking must be one of: ${METRICS.join(', ')}`);
+        }
+        if (!Number.isInteger(winners) || winners <= 0) {
+            throw new Error('The number of winners must be a positive whole number');
+        }
+
+        const competition: Competition = {
+            id: crypto.randomUUID().slice(0, 8),
+            mint: token.mintAddress,
+            symbol: token.symbol,
+            startsAt: new Date(startsAt).toISOString(),
+            endsAt: new Date(endsAt).toISOString(),
+            minBuySol: input.minBuySol,
+            sellPolicy,
+            metric,
+            winners,
+            status: 'scheduled',
+            entries: {},
+        };
+        this.competitions.push(competition);
+        this.persist();
+        logger.info(`Created ${token.symbol} competition ${competition.id}: ${competition.startsAt} → ${competition.endsAt}`);
+
+        this.tick();
+        return competition;
+    }
+
+    cancel(id: string) {
+        const competition = this.get(id);
+        if (!competition || !this.isOpen(competition)) return undefined;
+
+        competition.status = 'cancelled';
+        this.prune();
+        this.persist();
+        logger.info(`Cancelled ${competition.symbol} competition ${competition.id}`);
+        return competition;
+    }
+
+    // Ends a competition now instead of at its end time and announces the winners
+    finish(id: string) {
+        const competition = this.get(id);
+        if (!competition || competition.status !== 'active') return undefined;
+
+        competition.endsAt = new Date().toISOString();
+        this.announceResults(competition);
+        return competition;
+    }
+
+    // Called for every recorded trade, alerted or not
+    onTrade(tradeData: TradeData) {
+        const competition = this.competitions.find(competition =>
+            competition.mint === tradeData.mint && competition.status === 'active');
+        if (!competition) return;
+
+        const at = tradeData.timestamp.getTime();
+        if (at < Date.parse(competition.startsAt) || at > Date.parse(competition.endsAt)) return;
+
+        if (tradeData.type === 'BUY') {
+            if (tradeData.amountSol < competition.minBuySol) return;
+
+            const entry = competition.entries[tradeData.buyer] || this.newEntry(competition, tradeData.buyer);
+            entry.buys++;
+            entry.bought += tradeData.amountSol;
+            entry.largestBuy = Math.max(entry.largestBuy, tradeData.amountSol);
+            competition.entries[tradeData.buyer] = entry;
+        } else if (tradeData.type === 'SELL') {
+            const entry = competition.entries[tradeData.buyer];
+            if (!entry) {
+                // A sell before any buy still counts, so dumping a prior bag and buying back doesn't pay
+                this.recordPresell(competition, tradeData.buyer, tradeData.amountSol);
+            } else {
+                this.recordSell(competition, entry, tradeData.amountSol);
+            }
+        } else {
+            return;
+        }
+        this.persist();
+    }
+
+    private newEntry(competition: Competition, wallet: string) {
+        const entry = emptyEntry(wallet);
+        const sold = competition.presold?.[wallet];
+        if (competition.presold && sold !== undefined) {
+            delete competition.presold[wallet];
+            this.recordSell(competition, entry, sold);
+        }
+        return entry;
+    }
+
+    private recordPresell(competition: Competition, wallet: string, amountSol: number) {
+        const presold = competition.presold || (competition.presold = {});
+        const sold = presold[wallet];
+        // Re-inserting moves the wallet to the back of the eviction order
+        delete presold[wallet];
+        presold[wallet] = (sold ?? 0) + amountSol;
+
+        const wallets = Object.keys(presold);
+        for (const oldest of wallets.slice(0, Math.max(wallets.length - MAX_PRESOLD, 0))) {
+            delete presold[oldest];
+        }
+    }
+
+    private recordSell(competition: Competition, entry: CompetitionEntry, amountSol: number) {
+        entry.sells++;
+        entry.sold += amountSol;
+        if (competition.sellPolicy === 'disqualify' && !entry.disqualified) {
+            entry.disqualified = true;
+            logger.info(`${entry.wallet} disqualified from ${competition.symbol} competition ${competition.id} for selling`);
+        }
+    }
+
+    // Ranked entrants with a positive score, best first
+    standings(competition: Competition): Standing[] {
+        return Object.values(competition.entries)
+            .filter(entry => entry.buys > 0 && !entry.disqualified)
+            .map(entry => ({ entry, score: this.score(competition, entry) }))
+            .filter(standing => standing.score > 0)
+            .sort((a, b) => b.score - a.score);
+    }
+
+    renderLeaderboard(competition: Competition) {
+        const remaining = Date.parse(competition.endsAt) - Date.now();
+        return templates.render('leaderboard', {
+            symbol: competition.symbol,
+            entries: this.renderStandings(competition, config.features.competitionLeaderboardSize) || 'No qualifying buys yet.',
+            entrants: this.standings(competition).length,
+            timeLeft: competition.status === 'scheduled'
+                ? `starts in ${formatDuration(Date.parse(competition.startsAt) - Date.now())}`
+                : formatDuration(remaining),
+            end: competition.endsAt,
+        });
+    }
+
+    getStatus() {
+        return this.competitions
+            .filter(competition => this.isOpen(competition))
+            .map(competition => ({
+                id: competition.id,
+                symbol: competition.symbol,
+                status: competition.status,
+                endsAt: competition.endsAt,
+                entrants: this.standings(competition).length,
+            }));
+    }
+
+    private isOpen(competition: Competition) {
+        return competition.status === 'scheduled' || competition.status === 'active';
+    }
+
+    private score(competition: Competition, entry: CompetitionEntry) {
+        const base = competition.metric === 'largest' ? entry.largestBuy : entry.bought;
+        return competition.sellPolicy === 'net' ? base - entry.sold : base;
+    }
+
+    private renderStandings(competition: Competition, limit: number) {
+        const explorer = tokenRegistry.get(competition.mint)?.explorer;
+        return this.standings(competition).slice(0, limit).map(({ entry, score }, index) =>
+            `${MEDALS[index] || `${index + 1}.`} ${telegram.formatWallet(entry.wallet, explorer)} - ` +
+            `**${score.toFixed(4)} SOL** (${entry.buys} buy${entry.buys === 1 ? '' : 's'})`
+        ).join('\n');
+    }
+
+    private tick() {
+        const now = Date.now();
+        for (const competition of this.competitions) {
+            try {
+                if (competition.status === 'scheduled' && now >= Date.parse(competition.startsAt)) {
+                    competition.status = 'active';
+                    competition.lastLeaderboardAt = new Date(now).toISOString();
+                    this.persist();
+                    this.announceStart(competition);
+                } else if (competition.status === 'active' && now >= Date.parse(competition.endsAt) + RESULTS_DELAY) {
+                    this.announceResults(competition);
+                } else if (competition.status === 'active' && config.features.competitionLeaderboardInterval > 0
+                    && now - Date.parse(competition.lastLeaderboardAt || competition.startsAt) >= config.features.competitionLeaderboardInterval) {
+                    competition.lastLeaderboardAt = new Date(now).toISOString();
+                    this.persist();
+                    this.post(competition, this.renderLeaderboard(competition));
+                }
+            } catch (error: any) {
+                logger.error(`Competition ${competition.id} update failed: ${error.message}`);
+            }
+        }
+    }
+
+    private announceStart(competition: Competition) {
+        this.post(competition, templates.render('competitionStart', {
+            symbol: competition.symbol,
+            metric: competition.metric === 'largest' ? 'Biggest single buy wins' : 'Most SOL bought wins',
+            minBuy: competition.minBuySol,
+            sellPolicy: competition.sellPolicy === 'net'
+                ? 'SOL from sells is deducted from your total'
+                : 'selling during the competition disqualifies you',
+            winners: competition.winners,
+            start: competition.startsAt,
+            end: competition.endsAt,
+        }));
+    }
+
+    private announceResults(competition: Competition) {
+        const standings = this.standings(competition);
+        competition.status = 'ended';
+        competition.results = standings.slice(0, competition.winners).map(standing => standing.entry.wallet);
+        this.prune();
+        this.persist();
+        logger.info(`${competition.symbol} competition ${competition.id} ended with ${standings.length} entrant(s)`);
+
+        this.post(competition, templates.render('competitionEnd', {
+            symbol: competition.symbol,
+            winners: this.renderStandings(competition, competition.winners) || 'No qualifying buys, so no winners this time.',
+            entrants: standings.length,
+            volume: TransactionParser.formatNumber(standings.reduce((sum, standing) => sum + standing.entry.bought, 0)),
+        }));
+    }
+
+    private post(competition: Competition, message: string) {
+        const token = tokenRegistry.get(competition.mint);
+        if (!token) {
+            logger.warn(`Competition ${competition.id} is for an untracked token, not posting`);
+            return;
+        }
+        telegram.queueMessage(token.channelId, message, { parse_mode: 'Markdown', disable_web_page_preview: true });
+    }
+
+    private prune() {
+        const closed = this.competitions.filter(competition => !this.isOpen(competition));
+        // Only needed while trades still count
+        for (const competition of closed) delete competition.presold;
+        const excess = new Set(closed.slice(0, Math.max(closed.length - MAX_HISTORY, 0)));
+        this.competitions = this.competitions.filter(competition => !excess.has(competition));
+    }
+
+    private persist() {
+        storage.setCompetitions(this.competitions);
+    }
+}
+
+export type { CompetitionInput, Standing };
+export { parseDuration, formatDuration };
+export default new CompetitionService();
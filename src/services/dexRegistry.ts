@@ -0,0 +1,162 @@
+interface DexVenue {
+    name: string;
+    // {mint} is replaced with the traded token's mint address
+    url: string;
+    // Values Helius reports in a transaction's `source` field for this venue
+    heliusSources: string[];
+}
+
+interface Instruction {
+    programId: string;
+    innerInstructions?: Instruction[];
+}
+
+const DEX_PROGRAMS: Record<string, DexVenue> = {
+    '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8': {
+        name: 'Raydium',
+        url: 'https://raydium.io/swap/?inputMint=sol&outputMint={mint}',
+        heliusSources: ['RAYDIUM'],
+    },
+    'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C': {
+        name: 'Raydium CPMM',
+        url: 'https://raydium.io/swap/?inputMint=sol&outputMint={mint}',
+        heliusSources: [],
+    },
+    'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK': {
+        name: 'Raydium CLMM',
+        url: 'https://raydium.io/swap/?inputMint=sol&outputMint={mint}',
+        heliusSources: [],
+    },
+    'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4': {
+        name: 'Jupiter',
+        url: 'https://jup.ag/swap/SOL-{mint}',
+        heliusSources: ['JUPITER'],
+    },
+    'JUP4Fb2cqiRUcaTHdrPC8h2gNsA2ETXiPDD33WcGuJB': {
+        name: 'Jupiter v4',
+        url: 'https://jup.ag/swap/SOL-{mint}',
+        heliusSources: [],
+    },
+    'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc': {
+        name: 'Orca Whirlpool',
+        url: 'https://www.orca.so/?tokenIn=So11111111111111111111111111111111111111112&tokenOut={mint}',
+        heliusSources: ['ORCA'],
+    },
+    '9W959DqEETiGZocYWCQPaJ6sBmUzgfxXfqGeTEdp3aQP': {
+        name: 'Orca',
+        url: 'https://www.orca.so/?tokenIn=So11111111111111111111111111111111111111112&tokenOut={mint}',
+        heliusSources: [],
+    },
+    'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo': {
+        name: 'Meteora DLMM',
+        url: 'https://app.meteora.ag/dlmm?search={mint}',
+        heliusSources: ['METEORA'],
+    },
+    'Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB': {
+        name: 'Meteora Pools',
+        url: 'https://app.meteora.ag/pools?search={mint}',
+        heliusSources: [],
+    },
+    'cpamdpZCGKUy5JxQXB4dcpGPiikHawvSWAd6mEn1sGG': {
+        name: 'Meteora DAMM v2',
+        url: 'https://app.meteora.ag/pools?search={mint}',
+        heliusSources: [],
+    },
+    '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P': {
+        name: 'Pump.fun',
+        url: 'https://pump.fun/coin/{mint}',
+        heliusSources: ['PUMP_FUN'],
+    },
+    'pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA': {
+        name: 'PumpSwap',
+        url: 'https://swap.pump.fun/?input=So11111111111111111111111111111111111111112&output={mint}',
+        heliusSources: ['PUMP_AMM'],
+    },
+    'BSfD6SHZigAfDWSjzD5Q41jw8LmKwtmjskPH9XW1mrRW': {
+        name: 'Photon',
+        url: 'https://photon-sol.tinyastro.io/en/lp/{mint}',
+        heliusSources: ['PHOTON'],
+    },
+};
+
+// Aggregators and routers sit on top of the pools they route through, so when both
+// appear in one transaction the router is what the user actually interacted with
+const ROUTER_PROGRAMS = new Set([
+    'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4',
+    'JUP4Fb2cqiRUcaTHdrPC8h2gNsA2ETXiPDD33WcGuJB',
+    'BSfD6SHZigAfDWSjzD5Q41jw8LmKwtmjskPH9XW1mrRW',
+]);
+
+const UNKNOWN_DEX = 'Unknown DEX';
+
+class DexRegistry {
+    getByProgram(programId: string) {
+        return DEX_PROGRAMS[programId];
+    }
+
+    getByName(name: string) {
+        return Object.values(DEX_PROGRAMS).find(venue => venue.name === name);
+    }
+
+    getBySource(source: string) {
+        const normalized = source.toUpperCase();
+        return Object.values(DEX_PROGRAMS).find(venue => venue.heliusSources.includes(normalized));
+    }
+
+    // Walks top-level and inner instructions; routers win over the pools they call into
+    findVenue(instructions: Instruction[] = []) {
+        let poolVenue: DexVenue | undefined;
+
+        const visit = (list: Instruction[] = []): DexVenue | undefined => {
+            for (const inst of list) {
+                const venue = DEX_PROGRAMS[inst.programId];
+                if (venue && ROUTER_PROGRAMS.has(inst.programId)) return venue;
+                if (venue && !poolVenue) poolVenue = venue;
+
+                const routed = visit(inst.innerInstructions);
+                if (routed) return routed;
+            }
+            return undefined;
+        };
+
+        return visit(instructions) || poolVenue;
+    }
+
+    // Resolves the venue for a Helius transaction, preferring instructions over the `source` label
+    resolve(transaction: { source?: string; instructions?: Instruction[] }) {
+        const fromInstructions = this.findVenue(transaction.instructions);
+        if (fromInstructions) return fromInstructions;
+
+        if (transaction.source && transaction.source !== 'UNKNOWN') {
+            return this.getBySource(transaction.source);
+        }
+        return undefined;
+    }
+
+    getName(transaction: { source?: string; instructions?: Instruction[] }) {
+        const venue = this.resolve(transaction);
+        if (venue) return venue.name;
+        // Keep Helius' own label for venues we don't know yet rather than hiding it
+        return transaction.source && transaction.source !== 'UNKNOWN' ? this.displayName(transaction.source) : UNKNOWN_DEX;
+    }
+
+    // "STEP_FINANCE" -> "Step Finance"; names land in Markdown alerts, where `_` and friends break parsing
+    displayName(source: string) {
+        const name = source
+            .replace(/[_*`[\]()]+/g, ' ')
+            .trim()
+            .toLowerCase()
+            .replace(/\s+/g, ' ')
+            .replace(/\b\w/g, letter => letter.toUpperCase());
+        return name || UNKNOWN_DEX;
+    }
+
+    getLink(dexName: string, mintAddress: string) {
+        const venue = this.getByName(dexName);
+        return venue ? venue.url.replace('{mint}', mintAddress) : undefined;
+    }
+}
+
+export type { DexVenue, Instruction };
+export { DEX_PROGRAMS, UNKNOWN_DEX };
+export default new DexRegistry();
@@ -0,0 +1,41 @@
+import { Explorer } from '../types';
+
+interface ExplorerLinks {
+    name: string;
+    // {signature} / {address} are substituted
+    tx: string;
+    account: string;
+}
+
+const EXPLORERS: Record<Explorer, ExplorerLinks> = {
+    solscan: {
+        name: 'Solscan',
+        tx: 'https://solscan.io/tx/{signature}',
+        account: 'https://solscan.io/account/{address}',
+    },
+    solana: {
+        name: 'Solana Explorer',
+        tx: 'https://explorer.solana.com/tx/{signature}',
+        account: 'https://explorer.solana.com/address/{address}',
+    },
+    solanafm: {
+        name: 'SolanaFM',
+        tx: 'https://solana.fm/tx/{signature}',
+        account: 'https://solana.fm/address/{address}',
+    },
+};
+
+function txUrl(signature: string, explorer: Explorer = 'solscan') {
+    return EXPLORERS[explorer].tx.replace('{signature}', signature);
+}
+
+function accountUrl(address: string, explorer: Explorer = 'solscan') {
+    return EXPLORERS[explorer].account.replace('{address}', address);
+}
+
+function explorerName(explorer: Explorer = 'solscan') {
+    return EXPLORERS[explorer].name;
+}
+
+export type { ExplorerLinks };
+export { EXPLORERS, txUrl, accountUrl, explorerName };
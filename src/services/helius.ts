@@ -3,77 +3,316 @@ import { Connection, PublicKey } from '@solana/web3.js';
 import config from '../config';
 import logger from '../utils/logger';
 import  withRetry  from '../utils/retry';
+import storage from './storage';
+import tokenRegistry from './tokenRegistry';
+import { HeliusWebhook, WebhookChanges } from '../types';
+
+function sameSet(a: string[] = [], b: string[] = []) {
+    return a.length === b.length && a.every(item => b.includes(item));
+}
 
 class HeliusService {
     connection: Connection;
     constructor() {
-        this.connection = new Connection(config.helius.rpcUrl);
+        this.connection = new Connection(config.helius.rpcUrl, this.connectionConfig());
+    }
+
+    connectionConfig() {
+        return {
+            commitment: 'confirmed' as const,
+            ...(config.helius.wsUrl ? { wsEndpoint: config.helius.wsUrl } : {})
+        };
     }
 
-    async setupWebhook() {
-        const webhookConfig = {
-            webhookURL: config.helius.webhookUrl,
+    private webhookUrl(webhookId?: string) {
+        return `https://api.helius.xyz/v0/webhooks${webhookId ? `/${webhookId}` : ''}?api-key=${config.helius.apiKey}`;
+    }
+
+    // The webhook definition the current config and token list call for
+    desiredWebhook(): WebhookChanges {
+        return {
+            webhookURL: config.helius.webhookUrl as string,
             transactionTypes: ['SWAP'],
-            accountAddresses: [config.token.mintAddress],
-            webhookType: 'enhanced'
+            accountAddresses: tokenRegistry.watchAddresses(),
+            webhookType: 'enhanced',
+            // Helius echoes this value back in the Authorization header of every delivery
+            ...(config.helius.webhookSecret ? { authHeader: config.helius.webhookSecret } : {})
         };
+    }
 
+    async createWebhook(): Promise<HeliusWebhook> {
         return withRetry(async () => {
-            const response = await axios.post(
-                `https://api.helius.xyz/v0/webhooks?api-key=${config.helius.apiKey}`,
-                webhookConfig,
-                { timeout: 10000 }
-            );
-            logger.info('Helius webhook created:', response.data);
+            const response = await axios.post(this.webhookUrl(), this.desiredWebhook(), { timeout: 10000 });
+            logger.info(`Helius webhook created: ${response.data.webhookID}`);
             return response.data;
         }, config.helius.retryAttempts, 2000, 'Webhook setup');
     }
 
-    async getWebhooks() {
+    async getWebhooks(): Promise<HeliusWebhook[]> {
         return withRetry(async () => {
-            const response = await axios.get(
-                `https://api.helius.xyz/v0/webhooks?api-key=${config.helius.apiKey}`,
-                { timeout: 10000 }
-            );
+            const response = await axios.get(this.webhookUrl(), { timeout: 10000 });
             return response.data;
         }, 2, 1000, 'Get webhooks');
     }
 
-    async getRecentTransactions(limit = 5) {
+    async getWebhook(webhookId: string): Promise<HeliusWebhook> {
         return withRetry(async () => {
-            const signatures = await this.connection.getSignaturesForAddress(
-                new PublicKey(config.token.mintAddress ?? ''),
-                { limit }
+            const response = await axios.get(this.webhookUrl(webhookId), { timeout: 10000 });
+            return response.data;
+        }, 2, 1000, 'Get webhook');
+    }
+
+    // Helius replaces the whole definition on edit, so unspecified fields are carried over
+    async updateWebhook(webhookId: string, changes: WebhookChanges): Promise<HeliusWebhook> {
+        const current = await this.getWebhook(webhookId);
+        const { webhookID, wallet, ...definition } = current;
+        const body = { ...definition, ...changes };
+
+        return withRetry(async () => {
+            const response = await axios.put(this.webhookUrl(webhookId), body, { timeout: 10000 });
+            logger.info(`Helius webhook ${webhookId} updated`);
+            return response.data;
+        }, config.helius.retryAttempts, 2000, 'Webhook update');
+    }
+
+    async deleteWebhook(webhookId: string) {
+        await withRetry(
+            () => axios.delete(this.webhookUrl(webhookId), { timeout: 10000 }),
+            config.helius.retryAttempts, 2000, 'Webhook delete'
+        );
+        logger.info(`Helius webhook ${webhookId} deleted`);
+    }
+
+    // Idempotent: creates the webhook if missing, edits it (URL included) if the token list or
+    // settings drifted, and removes duplicates left behind by repeated setups. A webhook is ours
+    // if it's the one we stored, points at WEBHOOK_URL, or watches exactly our accounts (with our
+    // auth header, when one is set), so a new tunnel URL moves the old webhook instead of adding one
+    async ensureWebhook() {
+        if (!config.helius.webhookUrl) {
+            throw new Error('WEBHOOK_URL not configured');
+        }
+
+        const desired = this.desiredWebhook();
+        const storedId = storage.getWebhookId();
+        const ours = (await this.getWebhooks()).filter(webhook =>
+            webhook.webhookID === storedId
+            || webhook.webhookURL === desired.webhookURL
+            || (sameSet(webhook.accountAddresses, desired.accountAddresses)
+                && (!desired.authHeader || webhook.authHeader === desired.authHeader)));
+        // Prefer the stored webhook, then one already at the right URL
+        ours.sort((a, b) =>
+            Number(b.webhookID === storedId) - Number(a.webhookID === storedId)
+            || Number(b.webhookURL === desired.webhookURL) - Number(a.webhookURL === desired.webhookURL));
+        const [existing, ...duplicates] = ours;
+
+        for (const duplicate of duplicates) {
+            logger.warn(`Removing duplicate Helius webhook ${duplicate.webhookID} for ${duplicate.webhookURL}`);
+            await this.deleteWebhook(duplicate.webhookID);
+        }
+
+        let result;
+        if (!existing) {
+            result = { action: 'created' as const, webhook: await this.createWebhook() };
+        } else if (!this.webhookMatches(existing, desired)) {
+            if (existing.webhookURL !== desired.webhookURL) {
+                logger.info(`Moving Helius webhook ${existing.webhookID} from ${existing.webhookURL} to ${desired.webhookURL}`);
+            }
+            result = { action: 'updated' as const, webhook: await this.updateWebhook(existing.webhookID, desired) };
+        } else {
+            logger.info(`Helius webhook ${existing.webhookID} already up to date`);
+            result = { action: 'unchanged' as const, webhook: existing };
+        }
+
+        storage.setWebhookId(result.webhook.webhookID);
+        return result;
+    }
+
+    private webhookMatches(webhook: HeliusWebhook, desired: WebhookChanges) {
+        return webhook.webhookURL === desired.webhookURL
+            && sameSet(webhook.accountAddresses, desired.accountAddresses)
+            && sameSet(webhook.transactionTypes.map(type => type.toUpperCase()), desired.transactionTypes)
+            && webhook.webhookType === desired.webhookType
+            // A missing header counts as drift too, so a rotated WEBHOOK_SECRET always gets pushed
+            && (!desired.authHeader || webhook.authHeader === desired.authHeader);
+    }
+
+    async getRecentTransactions(mintAddress: string, limit = 5) {
+        const signatures = await withRetry(
+            () => this.connection.getSignaturesForAddress(new PublicKey(mintAddress), { limit }),
+            config.helius.retryAttempts, 2000, 'Fetch signatures'
+        );
+
+        return this.getTransactions(signatures.map(s => s.signature));
+    }
+
+    // Fetches enhanced transactions, at most 100 signatures per /v0/transactions call
+    async getTransactions(signatures: string[]) {
+        const transactions: any[] = [];
+
+        for (let i = 0; i < signatures.length; i += 100) {
+            const chunk = signatures.slice(i, i + 100);
+            const data = await withRetry(async () => {
+                const response = await axios.post(
+                    `https://api.helius.xyz/v0/transactions?api-key=${config.helius.apiKey}`,
+                    { transactions: chunk },
+                    { timeout: 15000 }
+                );
+                return response.data || [];
+            }, config.helius.retryAttempts, 2000, 'Fetch transactions');
+            transactions.push(...data);
+        }
+
+        return transactions;
+    }
+
+    // Walks signature history back from `before` (or the tip) until `until` is reached.
+    // Returns successful signatures oldest-first so callers can replay them in order.
+    // `since` (unix seconds) stops paging once history reaches that block time, and anything
+    // after `to` is left out (and counted in `skipped`). When the page cap cuts the walk
+    // short, `oldest` is where to continue with `before` next time
+    async getSignaturesSince(address: string, until?: string, { before, since, to, pageSize = 100, maxPages = 10 }: { before?: string; since?: number; to?: number; pageSize?: number; maxPages?: number } = {}) {
+        const signatures: string[] = [];
+        let cursor = before;
+        let complete = false;
+        let skipped = 0;
+
+        for (let page = 0; page < maxPages; page++) {
+            const options: { limit: number; until?: string; before?: string } = { limit: pageSize };
+            if (until) options.until = until;
+            if (cursor) options.before = cursor;
+
+            const batch = await withRetry(
+                () => this.connection.getSignaturesForAddress(new PublicKey(address), options),
+                config.helius.retryAttempts, 2000, 'Fetch signature page'
+            );
+
+            const inRange = since ? batch.filter(s => !s.blockTime || s.blockTime >= since) : batch;
+            const beforeTo = to !== undefined ? inRange.filter(s => !s.blockTime || s.blockTime <= to) : inRange;
+            skipped += inRange.length - beforeTo.length;
+            signatures.push(...beforeTo.filter(s => !s.err).map(s => s.signature));
+
+            if (batch.length < pageSize || inRange.length < batch.length) {
+                complete = true;
+                break;
+            }
+            cursor = batch[batch.length - 1]?.signature;
+        }
+
+        return { signatures: signatures.reverse(), complete, oldest: cursor, skipped };
+    }
+
+    // First transaction ever recorded for an address, or null if history is longer than `maxPages`
+    async getOldestSignature(address: string, maxPages = 5) {
+        let before: string | undefined;
+
+        for (let page = 0; page < maxPages; page++) {
+            const batch = await withRetry(
+                () => this.connection.getSignaturesForAddress(new PublicKey(address), { limit: 1000, ...(before ? { before } : {}) }),
+                config.helius.retryAttempts, 2000, 'Fetch signature page'
             );
-            
-            if (signatures.length === 0) return [];
 
-            const response = await axios.post(
-                `https://api.helius.xyz/v0/transactions?api-key=${config.helius.apiKey}`,
-                { transactions: signatures.map(s => s.signature) },
-                { timeout: 15000 }
+            const oldest = batch[batch.length - 1];
+            if (!oldest) return null;
+            if (batch.length < 1000) return { signature: oldest.signature, slot: oldest.slot };
+            before = oldest.signature;
+        }
+        return null;
+    }
+
+    // The wallet that sent this wallet its first SOL; null for wallets with long histories
+    async getFundingSource(walletAddress: string) {
+        const oldest = await this.getOldestSignature(walletAddress, 1);
+        if (!oldest) return null;
+
+        const [transaction] = await this.getTransactions([oldest.signature]);
+        const funding = (transaction?.nativeTransfers || [])
+            .filter((transfer: any) => transfer.toUserAccount === walletAddress && transfer.fromUserAccount !== walletAddress)
+            .sort((a: any, b: any) => b.amount - a.amount)[0];
+        return funding?.fromUserAccount || null;
+    }
+
+    // Up to the 20 largest token accounts for a mint, largest first
+    async getLargestAccounts(mintAddress: string) {
+        return withRetry(async () => {
+            const accounts = await this.connection.getTokenLargestAccounts(new PublicKey(mintAddress));
+            return accounts.value.map(account => ({
+                address: account.address.toBase58(),
+                amount: account.uiAmount ?? 0,
+            }));
+        }, 2, 1000, 'Largest accounts');
+    }
+
+    // Wallet (or PDA) that owns each token account; null where the account is gone
+    async getTokenAccountOwners(accountAddresses: string[]) {
+        return withRetry(async () => {
+            const accounts = await this.connection.getMultipleParsedAccounts(
+                accountAddresses.map(address => new PublicKey(address))
             );
-            
-            return response.data || [];
-        }, config.helius.retryAttempts, 2000, 'Fetch transactions');
+            return accounts.value.map(account => {
+                const data = account?.data;
+                return data && 'parsed' in data ? (data.parsed?.info?.owner as string | undefined) ?? null : null;
+            });
+        }, 2, 1000, 'Token account owners');
+    }
+
+    // Program that owns each account; null for addresses with no account (e.g. unfunded PDAs)
+    async getAccountPrograms(addresses: string[]) {
+        return withRetry(async () => {
+            const accounts = await this.connection.getMultipleAccountsInfo(addresses.map(address => new PublicKey(address)));
+            return accounts.map(account => account?.owner.toBase58() ?? null);
+        }, 2, 1000, 'Account programs');
+    }
+
+    async getTokenSupply(mintAddress: string) {
+        return withRetry(async () => {
+            const supply = await this.connection.getTokenSupply(new PublicKey(mintAddress));
+            return supply.value.uiAmount ?? Number(supply.value.amount) / Math.pow(10, supply.value.decimals);
+        }, 2, 1000, 'Token supply');
     }
 
-    async getTokenMetrics() {
+    // Counts distinct owners with a non-zero balance using the DAS getTokenAccounts method
+    async getTokenMetrics(mintAddress: string, maxPages = 20) {
         try {
-            return withRetry(async () => {
-                const response = await axios.get(
-                    `https://api.helius.xyz/v0/addresses/${config.token.mintAddress}/balances?api-key=${config.helius.apiKey}`,
-                    { timeout: 10000 }
-                );
-                
-                const holders = response.data?.filter((holder: any) => holder.amount > 0)?.length || 0;
-                return { totalHolders: holders };
+            return await withRetry(async () => {
+                const owners = new Set<string>();
+
+                for (let page = 1; page <= maxPages; page++) {
+                    const response = await axios.post(config.helius.rpcUrl, {
+                        jsonrpc: '2.0',
+                        id: 'holders',
+                        method: 'getTokenAccounts',
+                        params: { mint: mintAddress, page, limit: 1000 }
+                    }, { timeout: 15000 });
+
+                    const accounts = response.data?.result?.token_accounts || [];
+                    for (const account of accounts) {
+                        if (Number(account.amount) > 0) owners.add(account.owner);
+                    }
+
+                    if (accounts.length < 1000) break;
+                    if (page === maxPages) {
+                        logger.warn(`Holder count for ${mintAddress} capped at ${maxPages} pages`);
+                    }
+                }
+
+                return { totalHolders: owners.size };
             }, 2, 1000, 'Token metrics');
         } catch (error: any) {
             logger.warn('Failed to fetch token metrics:', error.message);
             return { totalHolders: 0 };
         }
     }
+
+    async getWalletTokenBalance(ownerAddress: string, mintAddress: string) {
+        const accounts = await this.connection.getParsedTokenAccountsByOwner(
+            new PublicKey(ownerAddress),
+            { mint: new PublicKey(mintAddress) }
+        );
+        return accounts.value.reduce(
+            (sum, account) => sum + (account.account.data.parsed?.info?.tokenAmount?.uiAmount || 0),
+            0
+        );
+    }
 }
 
 export default new HeliusService();
@@ -0,0 +1,210 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import config from '../config';
+import logger from '../utils/logger';
+import helius from './helius';
+import requestQueue from './requestQueue';
+
+// Resolves with the signatures Helius didn't return, which are tried again
+type SignatureHandler = (signatures: string[]) => Promise<{ missing: string[] }>;
+
+// A very recent signature can be missing from /v0/transactions for a few seconds
+const RETRY_DELAY = 5000;
+const MAX_ATTEMPTS = 5;
+
+class LogSubscriber {
+    connection: Connection | null;
+    subscriptionIds: number[];
+    addresses: string[];
+    lastSeen: Map<string, string>;
+    lastMessageAt: number;
+    reconnectAttempts: number;
+    isRunning: boolean;
+    private handler: SignatureHandler | null = null;
+    private pending = new Set<string>();
+    // signature -> failed fetches so far
+    private attempts = new Map<string, number>();
+    private flushTimer: NodeJS.Timeout | null = null;
+    private watchdog: NodeJS.Timeout | null = null;
+    private reconnecting = false;
+
+    constructor() {
+        this.connection = null;
+        this.subscriptionIds = [];
+        this.addresses = [];
+        this.lastSeen = new Map();
+        this.lastMessageAt = 0;
+        this.reconnectAttempts = 0;
+        this.isRunning = false;
+    }
+
+    async start(addresses: string[], handler: SignatureHandler) {
+        if (this.isRunning) {
+            logger.warn('Log subscription already active');
+            return;
+        }
+
+        this.addresses = addresses;
+        this.handler = handler;
+        this.isRunning = true;
+
+        await this.connect();
+
+        this.watchdog = setInterval(() => {
+            const idleFor = Date.now() - this.lastMessageAt;
+            if (idleFor > config.features.wsIdleTimeout) {
+                this.reconnect(`no logs for ${Math.round(idleFor / 1000)}s`);
+            }
+        }, Math.min(config.features.wsIdleTimeout, 60000));
+    }
+
+    async stop() {
+        this.isRunning = false;
+        if (this.watchdog) clearInterval(this.watchdog);
+        if (this.flushTimer) clearTimeout(this.flushTimer);
+        this.watchdog = null;
+        this.flushTimer = null;
+        await this.unsubscribe();
+        logger.info('Log subscription stopped');
+    }
+
+    private async connect() {
+        // A fresh Connection means a fresh socket; web3.js can otherwise keep a dead one around
+        this.connection = new Connection(config.helius.rpcUrl, helius.connectionConfig());
+        this.lastMessageAt = Date.now();
+
+        for (const address of this.addresses) {
+            const id = this.connection.onLogs(new PublicKey(address), (logs) => {
+                this.lastMessageAt = Date.now();
+                if (logs.err) return;
+
+                this.lastSeen.set(address, logs.signature);
+                this.enqueue([logs.signature]);
+            }, 'confirmed');
+            this.subscriptionIds.push(id);
+        }
+
+        logger.info(`Subscribed to logs for ${this.addresses.length} account(s)`);
+    }
+
+    private async unsubscribe() {
+        const connection = this.connection;
+        const ids = this.subscriptionIds;
+        this.connection = null;
+        this.subscriptionIds = [];
+
+        if (!connection) return;
+        for (const id of ids) {
+            try {
+                await connection.removeOnLogsListener(id);
+            } catch (error: any) {
+                logger.debug(`Failed to remove log listener ${id}: ${error.message}`);
+            }
+        }
+    }
+
+    private async reconnect(reason: string) {
+        if (this.reconnecting || !this.isRunning) return;
+        this.reconnecting = true;
+
+        const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 60000);
+        logger.warn(`Reconnecting log subscription (${reason}) in ${delay}ms`);
+
+        // Snapshot before resubscribing: live logs on the new socket would otherwise move the cursor past the gap
+        const resumeFrom = new Map(this.lastSeen);
+        let failed = false;
+
+        try {
+            await this.unsubscribe();
+            await new Promise(resolve => setTimeout(resolve, delay));
+            if (!this.isRunning) return;
+
+            await this.connect();
+            await this.gapFill(resumeFrom);
+            this.reconnectAttempts = 0;
+        } catch (error: any) {
+            this.reconnectAttempts++;
+            failed = true;
+            logger.error(`Log subscription reconnect failed: ${error.message}`);
+        } finally {
+            this.reconnecting = false;
+        }
+
+        if (failed) this.reconnect('previous attempt failed');
+    }
+
+    // Replays anything that landed while the socket was down, starting after the last signature seen
+    private async gapFill(resumeFrom: Map<string, string>) {
+        for (const address of this.addresses) {
+            const until = resumeFrom.get(address);
+            if (!until) continue;
+
+            const { signatures, complete } = await requestQueue.run(() => helius.getSignaturesSince(address, until));
+            if (!complete) {
+                logger.warn(`Signature history for ${address} truncated; older signatures from the outage were not replayed`);
+            }
+            if (signatures.length > 0) {
+                logger.info(`Gap-filling ${signatures.length} signature(s) for ${address}`);
+                this.enqueue(signatures);
+            }
+        }
+    }
+
+    // Signatures arriving close together are fetched in one /v0/transactions call
+    private enqueue(signatures: string[], delay = 1000) {
+        for (const signature of signatures) this.pending.add(signature);
+        if (this.flushTimer || !this.handler) return;
+
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.flush();
+        }, delay);
+    }
+
+    private async flush() {
+        const batch = [...this.pending];
+        this.pending.clear();
+        if (batch.length === 0 || !this.handler) return;
+
+        let missing: string[];
+        try {
+            ({ missing } = await this.handler(batch));
+        } catch (error: any) {
+            logger.error(`Failed to process subscribed signatures: ${error.message}`);
+            missing = batch;
+        }
+
+        const retry = new Set(missing);
+        for (const signature of batch) {
+            if (!retry.has(signature)) this.attempts.delete(signature);
+        }
+        this.retry(missing);
+    }
+
+    private retry(signatures: string[]) {
+        const again = signatures.filter(signature => {
+            const attempts = (this.attempts.get(signature) || 0) + 1;
+            if (attempts >= MAX_ATTEMPTS) {
+                this.attempts.delete(signature);
+                logger.error(`Giving up on subscribed signature ${signature} after ${attempts} attempts`);
+                return false;
+            }
+            this.attempts.set(signature, attempts);
+            return true;
+        });
+
+        if (again.length === 0 || !this.isRunning) return;
+        logger.warn(`Retrying ${again.length} subscribed signature(s) in ${RETRY_DELAY}ms`);
+        this.enqueue(again, RETRY_DELAY);
+    }
+
+    getStatus() {
+        return {
+            isRunning: this.isRunning,
+            subscriptions: this.subscriptionIds.length,
+            lastMessageAt: this.lastMessageAt ? new Date(this.lastMessageAt).toISOString() : null,
+            reconnectAttempts: this.reconnectAttempts,
+        };
+    }
+}
+
+export default new LogSubscriber();
@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import config from '../config';
+import logger from '../utils/logger';
+import storage from './storage';
+import { MediaConfig, OutboundMessage } from '../types';
+
+type Sender = (message: OutboundMessage) => Promise<unknown>;
+type DropHandler = (message: OutboundMessage, error: any) => void;
+
+// 400 (bad markup, chat not found) and 403 (bot removed from chat) won't succeed on retry
+const PERMANENT_STATUSES = new Set([400, 403]);
+
+// Per-chat FIFO in front of the Bot API. Each chat sends one message at a time, spaced by
+// TELEGRAM_CHAT_INTERVAL, and all chats share a per-second budget. Pending messages are
+// persisted so a restart (or a long 429 or outage) doesn't lose alerts; a message is only
+// dropped when Telegram rejects it outright or the queue overflows.
+class OutboundQueue {
+    queues: Map<string, OutboundMessage[]>;
+    isRunning: boolean;
+    counters: { sent: number; dropped: number; rateLimited: number };
+    private send: Sender;
+    private onDrop: DropHandler | undefined;
+    private nextSendAt = new Map<string, number>();
+    private inFlight = new Set<string>();
+    private recentSends: number[] = [];
+    private timer: NodeJS.Timeout | null = null;
+    private timerDueAt = 0;
+
+    constructor(send: Sender, onDrop?: DropHandler) {
+        this.send = send;
+        this.onDrop = onDrop;
+        this.queues = new Map();
+        this.isRunning = false;
+        this.counters = { sent: 0, dropped: 0, rateLimited: 0 };
+    }
+
+    // Restores anything left over from the last run; must run after storage.load()
+    start() {
+        if (this.isRunning) return;
+
+        for (const message of storage.getOutbox()) {
+            this.queueFor(message.chatId).push(message);
+        }
+        this.isRunning = true;
+
+        const restored = this.size();
+        if (restored > 0) logger.info(`Restored ${restored} undelivered Telegram message(s)`);
+        this.schedule(0);
+    }
+
+    stop() {
+        this.isRunning = false;
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+    }
+
+    enqueue(chatId: string, text: string, options: Record<string, any> = {}, media?: MediaConfig) {
+        if (this.size() >= config.telegram.maxQueueSize) {
+            this.dropOldest();
+        }
+
+        this.queueFor(chatId).push({
+            id: crypto.randomUUID(),
+            chatId,
+            text,
+            options,
+            ...(media ? { media } : {}),
+            attempts: 0,
+            enqueuedAt: new Date().toISOString(),
+        });
+        this.persist();
+        this.schedule(0);
+    }
+
+    size() {
+        let total = 0;
+        for (const queue of this.queues.values()) total += queue.length;
+        return total;
+    }
+
+    // Resolves once everything has been sent or dropped, or after `timeoutMs`
+    async drain(timeoutMs = 60000) {
+        const deadline = Date.now() + timeoutMs;
+        while ((this.size() > 0 || this.inFlight.size > 0) && Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, 250));
+        }
+        return this.size() === 0;
+    }
+
+    getStatus() {
+        return {
+            isRunning: this.isRunning,
+            depth: this.size(),
+            chats: Object.fromEntries([...this.queues].map(([chatId, queue]) => [chatId, queue.length])),
+            ...this.counters,
+        };
+    }
+
+    private queueFor(chatId: string) {
+        let queue = this.queues.get(chatId);
+        if (!queue) {
+            queue = [];
+            this.queues.set(chatId, queue);
+        }
+        return queue;
+    }
+
+    private dropOldest() {
+        let oldest: OutboundMessage[] | undefined;
+        for (const queue of this.queues.values()) {
+            const head = queue[0];
+            if (head && (!oldest?.[0] || head.enqueuedAt < oldest[0].enqueuedAt)) oldest = queue;
+        }
+
+        const message = oldest?.shift();
+        if (message) {
+            this.counters.dropped++;
+            logger.warn(`Telegram queue full (${config.telegram.maxQueueSize}), dropping oldest message for ${message.chatId}`);
+        }
+    }
+
+    private persist() {
+        storage.setOutbox([...this.queues.values()].flat());
+    }
+
+    private schedule(delay: number) {
+        if (!this.isRunning) return;
+
+        const dueAt = Date.now() + delay;
+        if (this.timer) {
+            if (this.timerDueAt <= dueAt) return;
+            clearTimeout(this.timer);
+        }
+
+        this.timerDueAt = dueAt;
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.pump();
+        }, delay);
+    }
+
+    private pump() {
+        const now = Date.now();
+        this.recentSends = this.recentSends.filter(sentAt => now - sentAt < 1000);
+        let wakeAt = Infinity;
+
+        for (const [chatId, queue] of this.queues) {
+            const message = queue[0];
+            if (!message || this.inFlight.has(chatId)) continue;
+
+            const readyAt = this.nextSendAt.get(chatId) || 0;
+            if (readyAt > now) {
+                wakeAt = Math.min(wakeAt, readyAt);
+                continue;
+            }
+
+            const oldestSend = this.recentSends[0];
+            if (oldestSend !== undefined && this.recentSends.length >= config.telegram.globalRateLimit) {
+                wakeAt = Math.min(wakeAt, oldestSend + 1000);
+                break;
+            }
+
+            this.recentSends.push(now);
+            this.deliver(chatId, message);
+        }
+
+        if (wakeAt < Infinity) this.schedule(Math.max(wakeAt - now, 10));
+    }
+
+    private async deliver(chatId: string, message: OutboundMessage) {
+        this.inFlight.add(chatId);
+
+        try {
+            await this.send(message);
+            this.remove(chatId, message);
+            this.counters.sent++;
+            this.nextSendAt.set(chatId, Date.now() + config.telegram.chatInterval);
+        } catch (error: any) {
+            this.handleFailure(chatId, message, error);
+        } finally {
+            this.inFlight.delete(chatId);
+            this.schedule(0);
+        }
+    }
+
+    private handleFailure(chatId: string, message: OutboundMessage, error: any) {
+        // node-telegram-bot-api puts Telegram's JSON reply on error.response.body
+        const status = error.response?.statusCode;
+        const retryAfter = error.response?.body?.parameters?.retry_after;
+
+        if (retryAfter) {
+            // Rate limits don't count as a failed attempt; the message keeps its place in line
+            this.counters.rateLimited++;
+            this.nextSendAt.set(chatId, Date.now() + retryAfter * 1000);
+            logger.warn(`Telegram rate limited chat ${chatId}, retrying in ${retryAfter}s`);
+            return;
+        }
+
+        message.attempts++;
+        if (PERMANENT_STATUSES.has(status)) {
+            this.remove(chatId, message);
+            this.counters.dropped++;
+            this.nextSendAt.set(chatId, Date.now() + config.telegram.chatInterval);
+            logger.error(`Dropping Telegram message for ${chatId} after ${message.attempts} attempt(s): ${error.message}`);
+            this.onDrop?.(message, error);
+            return;
+        }
+
+        // 5xx, resets and timeouts: back off (capped) and keep trying
+        const delay = Math.min(
+            config.telegram.retryDelay * Math.pow(2, Math.min(message.attempts - 1, 30)),
+            config.telegram.maxRetryDelay
+        );
+        this.nextSendAt.set(chatId, Date.now() + delay);
+        this.persist();
+        logger.warn(`Telegram send to ${chatId} failed, retrying in ${delay}ms (attempt ${message.attempts}): ${error.message}`);
+    }
+
+    private remove(chatId: string, message: OutboundMessage) {
+        const queue = this.queues.get(chatId);
+        const index = queue ? queue.indexOf(message) : -1;
+        if (queue && index >= 0) queue.splice(index, 1);
+        if (queue && queue.length === 0) this.queues.delete(chatId);
+        this.persist();
+    }
+}
+
+export type { Sender, DropHandler };
+export { OutboundQueue };
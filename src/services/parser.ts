@@ -1,79 +1,60 @@
-import config from '../config';
 import logger from '../utils/logger';
+import tokenRegistry from './tokenRegistry';
+import priceService from './priceService';
+import dexRegistry from './dexRegistry';
+import { TokenConfig, TradeData } from '../types';
 
-interface Instruction {
-    programId: string;
+const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const USDT_MINT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
+
+interface QuoteAsset {
+    symbol: string;
+    decimals: number;
+    isStable: boolean;
 }
 
-interface DEXPrograms {
-    [key: string]: string;
+interface SwapDetails {
+    quoteMint: string;
+    quoteAmount: number;
+    tokens: number;
+    type: TradeData['type'];
 }
 
-const DEX_PROGRAMS: DEXPrograms = {
-    '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8': 'Raydium',
-    'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4': 'Jupiter',
-    'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C': 'Raydium CPMM',
-};
+const LAMPORTS_PER_SOL = 1e9;
 
-const WSOL_MINT = 'So11111111111111111111111111111111111111112';
-const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
-const USDT_MINT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
+const QUOTE_ASSETS: Record<string, QuoteAsset> = {
+    [WSOL_MINT]: { symbol: 'SOL', decimals: 9, isStable: false },
+    [USDC_MINT]: { symbol: 'USDC', decimals: 6, isStable: true },
+    [USDT_MINT]: { symbol: 'USDT', decimals: 6, isStable: true },
+};
 
 class TransactionParser {
-    static parseHeliusTransaction(transaction: any) {
-        try {
-            const { signature, timestamp, events, instructions, feePayer, source } = transaction;
-            
-            // FIXED: Handle both object and array formats for events.swap
-            if (!events?.swap) return null;
-
-            let swaps: any[] = [];
-            
-            // Handle both object and array formats
-            if (Array.isArray(events.swap)) {
-                swaps = events.swap;
-            } else if (typeof events.swap === 'object') {
-                // Single swap object - convert to array
-                swaps = [events.swap];
-            } else {
-                logger.debug('Invalid swap format:', events.swap);
-                return null;
-            }
+    // How each parsed transaction was decoded, for debugging coverage of the fallback path
+    static parsePaths = { swapEvent: 0, balanceChanges: 0, unparsed: 0 };
 
-            if (swaps.length === 0) return null;
-
-            // Find swap involving our token
-            let relevantSwap: any = null;
-
-            for (const swap of swaps) {
-                const involvesOurToken = this.swapInvolvesToken(swap, config.token.mintAddress);
-                if (involvesOurToken) {
-                    relevantSwap = swap;
-                    break;
+    static parseHeliusTransaction(transaction: any): TradeData | null {
+        try {
+            const { events } = transaction;
+            const hasSwapEvent = Array.isArray(events?.swap) ? events.swap.length > 0 : !!events?.swap;
+
+            if (hasSwapEvent) {
+                const trade = this.parseSwapEvent(transaction);
+                if (trade) {
+                    this.parsePaths.swapEvent++;
+                    return trade;
                 }
             }
 
-            if (!relevantSwap) return null;
-
-            // Parse the swap details
-            const swapDetails = this.parseSwapDetails(relevantSwap);
-            if (!swapDetails) return null;
-
-            const dex = source || this.getDEXFromInstructions(instructions);
-            const isWhale = swapDetails.amountSol >= config.features.whaleThreshold;
-
-            return {
-                signature,
-                buyer: feePayer || 'Unknown',
-                amountSol: swapDetails.amountSol,
-                tokensBought: swapDetails.tokens,
-                pricePerToken: swapDetails.pricePerToken,
-                type: swapDetails.type,
-                timestamp: new Date(timestamp * 1000),
-                dex,
-                isWhale,
-                raw: transaction,
-            };
+            // Many Pump.fun and newer AMM swaps arrive without events.swap, and some events don't parse
+            const trade = this.parseBalanceChanges(transaction);
+            if (trade) {
+                this.parsePaths.balanceChanges++;
+                logger.debug(`Parsed ${trade.signature} from balance changes (${hasSwapEvent ? 'unparseable' : 'no'} swap event)`);
+            } else {
+                this.parsePaths.unparsed++;
+            }
+            return trade;
         } catch (error: any) {
             logger.error('Error parsing transaction:' + JSON.stringify({
                 message: error.message,
@@ -84,6 +65,228 @@ class TransactionParser {
         }
     }
 
+    static parseSwapEvent(transaction: any): TradeData | null {
+        const { events } = transaction;
+
+        let swaps: any[] = [];
+        
+        // Handle both object and array formats
+        if (Array.isArray(events.swap)) {
+            swaps = events.swap;
+        } else if (typeof events.swap === 'object') {
+            // Single swap object - convert to array
+            swaps = [events.swap];
+        } else {
+            logger.debug('Invalid swap format:', events.swap);
+            return null;
+        }
+
+        if (swaps.length === 0) return null;
+
+        // Find swap involving one of our tracked tokens
+        let relevantSwap: any = null;
+        let token: TokenConfig | undefined;
+
+        for (const swap of swaps) {
+            token = this.findTrackedToken(swap);
+            if (token) {
+                relevantSwap = swap;
+                break;
+            }
+        }
+
+        if (!relevantSwap || !token) return null;
+
+        // Parse the swap details, netting all legs from the fee payer's point of view
+        const swapDetails = this.parseSwapDetails(relevantSwap, token, this.getFeePayer(transaction));
+        if (!swapDetails) return null;
+
+        return this.buildTrade(transaction, token, swapDetails);
+    }
+
+    // Derives the trade from what the fee payer gained and lost in this transaction
+    static parseBalanceChanges(transaction: any): TradeData | null {
+        const feePayer = this.getFeePayer(transaction);
+        if (!feePayer) return null;
+
+        const deltas = this.getOwnerDeltas(transaction, feePayer);
+        const token = tokenRegistry.all().find(t => (deltas.get(t.mintAddress) || 0) !== 0);
+        if (!token) return null;
+
+        const swapDetails = this.detailsFromDeltas(deltas, token);
+        if (!swapDetails) return null;
+
+        return this.buildTrade(transaction, token, swapDetails);
+    }
+
+    static buildTrade(transaction: any, token: TokenConfig, swapDetails: SwapDetails): TradeData {
+        const dex = dexRegistry.getName(transaction);
+        const quoteAsset = QUOTE_ASSETS[swapDetails.quoteMint];
+        const isSolQuote = swapDetails.quoteMint === WSOL_MINT;
+
+        // Non-SOL quotes get their SOL/USD values (and whale flag) from normalizeQuote()
+        const amountSol = isSolQuote ? swapDetails.quoteAmount : 0;
+        const timestamp = transaction.timestamp ?? transaction.blockTime;
+
+        return {
+            signature: transaction.signature ?? transaction.transaction?.signatures?.[0],
+            mint: token.mintAddress,
+            symbol: token.symbol,
+            buyer: this.getFeePayer(transaction) || 'Unknown',
+            quoteMint: swapDetails.quoteMint,
+            quoteSymbol: quoteAsset?.symbol || 'UNKNOWN',
+            quoteAmount: swapDetails.quoteAmount,
+            amountSol,
+            amountUsd: 0,
+            tokensBought: swapDetails.tokens,
+            pricePerToken: swapDetails.tokens > 0 ? amountSol / swapDetails.tokens : 0,
+            type: swapDetails.type,
+            timestamp: timestamp ? new Date(timestamp * 1000) : new Date(),
+            slot: transaction.slot ?? 0,
+            dex,
+            isWhale: amountSol >= token.whaleThreshold,
+            isNewHolder: false,
+            raw: transaction,
+        };
+    }
+
+    static getFeePayer(transaction: any): string | undefined {
+        if (transaction.feePayer) return transaction.feePayer;
+        // RPC-format transactions list the fee payer as the first account key
+        const firstKey = transaction.transaction?.message?.accountKeys?.[0];
+        return typeof firstKey === 'string' ? firstKey : firstKey?.pubkey?.toString();
+    }
+
+    // Net change per mint for one owner; native SOL is folded into the WSOL mint
+    static getOwnerDeltas(transaction: any, owner: string) {
+        const deltas = new Map<string, number>();
+        const add = (mint: string, amount: number) => deltas.set(mint, (deltas.get(mint) || 0) + amount);
+
+        if (Array.isArray(transaction.tokenTransfers) || Array.isArray(transaction.nativeTransfers)) {
+            const ownTokenAccounts = new Set<string>();
+
+            for (const transfer of transaction.tokenTransfers || []) {
+                const amount = Number(transfer.tokenAmount) || 0;
+                if (transfer.toUserAccount === owner) {
+                    add(transfer.mint, amount);
+                    if (transfer.toTokenAccount) ownTokenAccounts.add(transfer.toTokenAccount);
+                }
+                if (transfer.fromUserAccount === owner) {
+                    add(transfer.mint, -amount);
+                    if (transfer.fromTokenAccount) ownTokenAccounts.add(transfer.fromTokenAccount);
+                }
+            }
+
+            for (const transfer of transaction.nativeTransfers || []) {
+                const amount = (Number(transfer.amount) || 0) / LAMPORTS_PER_SOL;
+                // Wrapping SOL into (or rent for) the owner's own token accounts isn't a trade leg
+                if (transfer.fromUserAccount === owner && !ownTokenAccounts.has(transfer.toUserAccount)) {
+                    add(WSOL_MINT, -amount);
+                }
+                if (transfer.toUserAccount === owner && !ownTokenAccounts.has(transfer.fromUserAccount)) {
+                    add(WSOL_MINT, amount);
+                }
+            }
+
+            return deltas;
+        }
+
+        const meta = transaction.meta;
+        if (meta?.preTokenBalances && meta?.postTokenBalances) {
+            for (const balance of meta.postTokenBalances) {
+                if (balance.owner === owner) add(balance.mint, balance.uiTokenAmount?.uiAmount || 0);
+            }
+            for (const balance of meta.preTokenBalances) {
+                if (balance.owner === owner) add(balance.mint, -(balance.uiTokenAmount?.uiAmount || 0));
+            }
+            // Index 0 is the fee payer; add the network fee back so it isn't counted as trade size
+            if (Array.isArray(meta.preBalances) && Array.isArray(meta.postBalances)) {
+                const lamports = meta.postBalances[0] - meta.preBalances[0] + (meta.fee || 0);
+                add(WSOL_MINT, lamports / LAMPORTS_PER_SOL);
+            }
+        }
+
+        return deltas;
+    }
+
+    // Converts the quote amount into SOL and USD and re-evaluates the whale flag on the SOL value
+    static async normalizeQuote(trade: TradeData): Promise<TradeData> {
+        const solPrice = await priceService.getSolPrice();
+        const quoteAsset = QUOTE_ASSETS[trade.quoteMint];
+
+        let amountSol = trade.amountSol;
+        let amountUsd = 0;
+
+        if (trade.quoteMint === WSOL_MINT) {
+            amountSol = trade.quoteAmount;
+            amountUsd = solPrice > 0 ? trade.quoteAmount * solPrice : 0;
+        } else if (quoteAsset?.isStable) {
+            amountUsd = trade.quoteAmount;
+            amountSol = solPrice > 0 ? trade.quoteAmount / solPrice : 0;
+            if (solPrice <= 0) {
+                logger.warn(`No SOL price available, cannot normalize ${trade.quoteAmount} ${quoteAsset.symbol} trade ${trade.signature}`);
+            }
+        }
+
+        const token = tokenRegistry.get(trade.mint);
+        return {
+            ...trade,
+            amountSol,
+            amountUsd,
+            pricePerToken: trade.tokensBought > 0 ? amountSol / trade.tokensBought : 0,
+            isWhale: !!token && amountSol >= token.whaleThreshold,
+        };
+    }
+
+    // Reads the owner's pre-trade balance from RPC-style meta.preTokenBalances; null when unavailable
+    static getPreTokenBalance(transaction: any, owner: string, mintAddress: string): number | null {
+        const preBalances = transaction?.meta?.preTokenBalances;
+        if (!Array.isArray(preBalances)) return null;
+
+        return preBalances
+            .filter((balance: any) => balance.owner === owner && balance.mint === mintAddress)
+            .reduce((sum: number, balance: any) => sum + (balance.uiTokenAmount?.uiAmount || 0), 0);
+    }
+
+    static getPostTokenBalance(transaction: any, owner: string, mintAddress: string): number | null {
+        const postBalances = transaction?.meta?.postTokenBalances;
+        if (!Array.isArray(postBalances)) return null;
+
+        return postBalances
+            .filter((balance: any) => balance.owner === owner && balance.mint === mintAddress)
+            .reduce((sum: number, balance: any) => sum + (balance.uiTokenAmount?.uiAmount || 0), 0);
+    }
+
+    // Enhanced (webhook) transactions carry balance changes instead of balances: the owner's net
+    // change from accountData[].tokenBalanceChanges; null when the payload doesn't list one
+    static getTokenBalanceChange(transaction: any, owner: string, mintAddress: string): number | null {
+        const accountData = transaction?.accountData;
+        if (!Array.isArray(accountData)) return null;
+
+        const changes = accountData
+            .flatMap((account: any) => account.tokenBalanceChanges || [])
+            .filter((change: any) => change.userAccount === owner && change.mint === mintAddress);
+        if (changes.length === 0) return null;
+
+        return changes.reduce((sum: number, change: any) => sum + this.readAmount(change, this.getDecimals(mintAddress)), 0);
+    }
+
+    // True when one of the owner's token accounts for the mint received rent here, i.e. was opened by this transaction
+    static opensTokenAccount(transaction: any, owner: string, mintAddress: string): boolean {
+        const accountData = transaction?.accountData;
+        if (!Array.isArray(accountData)) return false;
+
+        const tokenAccounts = new Set(accountData
+            .flatMap((account: any) => account.tokenBalanceChanges || [])
+            .filter((change: any) => change.userAccount === owner && change.mint === mintAddress)
+            .map((change: any) => change.tokenAccount));
+        return accountData.some((account: any) => tokenAccounts.has(account.account) && account.nativeBalanceChange > 0);
+    }
+
+    static findTrackedToken(swap: any): TokenConfig | undefined {
+        return tokenRegistry.all().find(token => this.swapInvolvesToken(swap, token.mintAddress));
+    }
+
     static swapInvolvesToken(swap: any, tokenMint: string): boolean {
         // Check tokenInputs and tokenOutputs
         const tokenInputs = swap.tokenInputs || [];
@@ -114,16 +317,20 @@ class TransactionParser {
         return hasTokenInput || hasTokenOutput;
     }
 
-    static parseSwapDetails(swap: any) {
+    static parseSwapDetails(swap: any, token: TokenConfig, owner?: string) {
         try {
-            // Try to parse from top-level tokenInputs/tokenOutputs first
-            let result = this.parseTopLevelSwap(swap);
+            // Top-level inputs/outputs are the user's side of the whole route
+            let result = this.detailsFromDeltas(this.netSwapLegs([swap], owner), token);
             if (result) return result;
 
-            // Fall back to innerSwaps
+            // Otherwise net every leg: intermediate hops (e.g. the SOL in USDC→SOL→TOKEN) cancel out
             if (swap.innerSwaps && Array.isArray(swap.innerSwaps)) {
+                result = this.detailsFromDeltas(this.netSwapLegs(swap.innerSwaps), token);
+                if (result) return result;
+
+                // Input wasn't a quote asset (e.g. another memecoin): price off the leg that touched our token
                 for (const innerSwap of swap.innerSwaps) {
-                    result = this.parseInnerSwap(innerSwap);
+                    result = this.parseInnerSwap(innerSwap, token);
                     if (result) return result;
                 }
             }
@@ -141,92 +348,126 @@ class TransactionParser {
         }
     }
 
-    static parseTopLevelSwap(swap: any) {
-        const tokenInputs = swap.tokenInputs || [];
-        const tokenOutputs = swap.tokenOutputs || [];
+    // Sums inputs (negative) and outputs (positive) per mint across swap legs. When an owner
+    // is given, legs attributed to other accounts are ignored; native SOL is folded into WSOL.
+    static netSwapLegs(legs: any[], owner?: string) {
+        const deltas = new Map<string, number>();
+        const add = (mint: string, amount: number) => deltas.set(mint, (deltas.get(mint) || 0) + amount);
+        const isOwner = (account?: string) => !owner || !account || account === owner;
 
-        const tokenOutput = tokenOutputs.find((o: any) => o?.mint === config.token.mintAddress);
-        const tokenInput = tokenInputs.find((i: any) => i?.mint === config.token.mintAddress);
+        for (const leg of legs) {
+            if (leg.nativeInput && isOwner(leg.nativeInput.account)) {
+                add(WSOL_MINT, -(Number(leg.nativeInput.amount) || 0) / LAMPORTS_PER_SOL);
+            }
+            if (leg.nativeOutput && isOwner(leg.nativeOutput.account)) {
+                add(WSOL_MINT, (Number(leg.nativeOutput.amount) || 0) / LAMPORTS_PER_SOL);
+            }
+            for (const input of leg.tokenInputs || []) {
+                if (!input?.mint || !isOwner(input.userAccount)) continue;
+                add(input.mint, -this.readAmount(input, this.getDecimals(input.mint)));
+            }
+            for (const output of leg.tokenOutputs || []) {
+                if (!output?.mint || !isOwner(output.userAccount)) continue;
+                add(output.mint, this.readAmount(output, this.getDecimals(output.mint)));
+            }
+        }
 
-        const baseInput = tokenInputs.find((i: any) =>
-            [WSOL_MINT, USDC_MINT, USDT_MINT].includes(i?.mint)
-        );
-        const baseOutput = tokenOutputs.find((o: any) =>
-            [WSOL_MINT, USDC_MINT, USDT_MINT].includes(o?.mint)
-        );
+        return deltas;
+    }
+
+    // Turns per-mint net changes into a trade: the tracked token moved one way, a quote asset the other
+    static detailsFromDeltas(deltas: Map<string, number>, token: TokenConfig): SwapDetails | null {
+        const tokenDelta = deltas.get(token.mintAddress) || 0;
+        if (tokenDelta === 0) return null;
 
-        return this.calculateSwapAmounts(tokenOutput, tokenInput, baseInput, baseOutput);
+        const isBuy = tokenDelta > 0;
+        // Largest opposite-side quote wins; rounding dust on intermediate hops is ignored
+        const quote = Object.keys(QUOTE_ASSETS)
+            .map(mint => ({ mint, delta: deltas.get(mint) || 0 }))
+            .filter(({ delta }) => isBuy ? delta < 0 : delta > 0)
+            .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))[0];
+        if (!quote) return null;
+
+        return {
+            quoteMint: quote.mint,
+            quoteAmount: Math.abs(quote.delta),
+            tokens: Math.abs(tokenDelta),
+            type: isBuy ? 'BUY' : 'SELL',
+        };
     }
 
-    static parseInnerSwap(innerSwap: any) {
+    static parseInnerSwap(innerSwap: any, token: TokenConfig) {
         const tokenInputs = innerSwap.tokenInputs || [];
         const tokenOutputs = innerSwap.tokenOutputs || [];
 
-        const tokenOutput = tokenOutputs.find((o: any) => o?.mint === config.token.mintAddress);
-        const tokenInput = tokenInputs.find((i: any) => i?.mint === config.token.mintAddress);
+        const tokenOutput = tokenOutputs.find((o: any) => o?.mint === token.mintAddress);
+        const tokenInput = tokenInputs.find((i: any) => i?.mint === token.mintAddress);
 
         const baseInput = tokenInputs.find((i: any) =>
-            [WSOL_MINT, USDC_MINT, USDT_MINT].includes(i?.mint)
+            !!QUOTE_ASSETS[i?.mint]
         );
         const baseOutput = tokenOutputs.find((o: any) =>
-            [WSOL_MINT, USDC_MINT, USDT_MINT].includes(o?.mint)
+            !!QUOTE_ASSETS[o?.mint]
         );
 
-        return this.calculateSwapAmounts(tokenOutput, tokenInput, baseInput, baseOutput);
+        return this.calculateSwapAmounts(tokenOutput, tokenInput, baseInput, baseOutput, token);
     }
 
-    static calculateSwapAmounts(tokenOutput: any, tokenInput: any, baseInput: any, baseOutput: any) {
-        let amountSol = 0;
+    static calculateSwapAmounts(tokenOutput: any, tokenInput: any, baseInput: any, baseOutput: any, token: TokenConfig): SwapDetails | null {
+        let quoteMint: string;
+        let quoteAmount = 0;
         let tokens = 0;
         let type: 'BUY' | 'SELL' | 'UNKNOWN' = 'UNKNOWN';
 
         if (tokenOutput && baseInput) {
             // BUY: Base asset -> Token
-            if (baseInput.mint === WSOL_MINT) {
-                amountSol = baseInput.tokenAmount || 0;
-            } else {
-                amountSol = baseInput.tokenAmount || 0; // USDC/USDT (already in decimal format from Helius)
-            }
-
-            // Get token amount - try different possible fields
-            tokens = tokenOutput.tokenAmount || 
-                    (tokenOutput.rawTokenAmount?.tokenAmount ? 
-                        Number(tokenOutput.rawTokenAmount.tokenAmount) / Math.pow(10, config.token.decimals) : 0);
-
+            quoteMint = baseInput.mint;
+            quoteAmount = this.readAmount(baseInput, QUOTE_ASSETS[quoteMint]?.decimals ?? 9);
+            tokens = this.readAmount(tokenOutput, token.decimals);
             type = 'BUY';
         } else if (tokenInput && baseOutput) {
             // SELL: Token -> Base asset
-            if (baseOutput.mint === WSOL_MINT) {
-                amountSol = baseOutput.tokenAmount || 0;
-            } else {
-                amountSol = baseOutput.tokenAmount || 0;
-            }
-
-            tokens = tokenInput.tokenAmount || 
-                    (tokenInput.rawTokenAmount?.tokenAmount ? 
-                        Number(tokenInput.rawTokenAmount.tokenAmount) / Math.pow(10, config.token.decimals) : 0);
-
+            quoteMint = baseOutput.mint;
+            quoteAmount = this.readAmount(baseOutput, QUOTE_ASSETS[quoteMint]?.decimals ?? 9);
+            tokens = this.readAmount(tokenInput, token.decimals);
             type = 'SELL';
         } else {
             return null;
         }
 
-        const pricePerToken = tokens > 0 ? amountSol / tokens : 0;
-
         return {
-            amountSol,
+            quoteMint,
+            quoteAmount,
             tokens,
-            type,
-            pricePerToken
+            type
         };
     }
 
-    static getDEXFromInstructions(instructions: Instruction[] = []) {
-        for (const inst of instructions) {
-            const name = DEX_PROGRAMS[inst.programId];
-            if (name) return name;
+    static getDecimals(mintAddress: string) {
+        return tokenRegistry.get(mintAddress)?.decimals ?? QUOTE_ASSETS[mintAddress]?.decimals ?? 0;
+    }
+
+    // Helius reports either a UI `tokenAmount` or a `rawTokenAmount` in base units
+    static readAmount(entry: any, decimals: number) {
+        if (entry?.tokenAmount) return Number(entry.tokenAmount);
+        if (entry?.rawTokenAmount?.tokenAmount) {
+            const rawDecimals = entry.rawTokenAmount.decimals ?? decimals;
+            return Number(entry.rawTokenAmount.tokenAmount) / Math.pow(10, rawDecimals);
         }
-        return 'Unknown DEX';
+        return 0;
+    }
+
+    // Keeps ~4 significant digits for sub-cent meme coin prices instead of rounding them to 0
+    static formatPrice(num: number) {
+        if (!num || num <= 0) return '0';
+        if (num >= 1) return num.toFixed(4);
+        const decimals = Math.min(20, 3 - Math.floor(Math.log10(num)));
+        return num.toFixed(decimals);
+    }
+
+    static shortenAddress(address: string, chars = 4) {
+        if (address.length <= chars * 2 + 1) return address;
+        return `${address.slice(0, chars)}…${address.slice(-chars)}`;
     }
 
     static formatNumber(num: number, decimals = 2) {
@@ -237,4 +478,5 @@ class TransactionParser {
     }
 }
 
+export { WSOL_MINT, USDC_MINT, USDT_MINT, QUOTE_ASSETS };
 export default TransactionParser;
\ No newline at end of file
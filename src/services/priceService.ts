@@ -1,15 +1,58 @@
 import axios from 'axios';
 import logger from '../utils/logger';
 import  withRetry  from '../utils/retry';
+import helius from './helius';
+import requestQueue from './requestQueue';
+import { TokenMarketData } from '../types';
+
+const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+const SUPPLY_TIMEOUT = 30000;
+
+interface PoolReserve {
+    liquidityUsd: number;
+    // Reserve of the token it's paired against, which unlike USD liquidity doesn't move with our price
+    quoteReserve: number;
+    quoteSymbol: string;
+}
+
+interface PoolData {
+    liquidityUsd: number;
+    priceUsd: number;
+    // SOL held across SOL-paired pools
+    solReserve: number;
+    // Per pair address; empty when the lookup failed
+    pools: Record<string, PoolReserve>;
+}
+
+interface CachedValue<T> {
+    value: T;
+    fetchedAt: number;
+}
+
+// In-flight requests live next to the values they fill, so two caches can't hand each other their results
+interface Cache<T> {
+    values: Map<string, CachedValue<T>>;
+    pending: Map<string, Promise<T>>;
+}
+
+function createCache<T>(): Cache<T> {
+    return { values: new Map(), pending: new Map() };
+}
 
 class PriceService {
     solPrice: number;
     lastUpdate: number;
     updateInterval: number;
+    supplyTtl: number;
+    liquidityTtl: number;
+    private supplyCache = createCache<number>();
+    private liquidityCache = createCache<PoolData>();
     constructor() {
         this.solPrice = 0;
         this.lastUpdate = 0;
         this.updateInterval = 60000;
+        this.supplyTtl = 10 * 60000;
+        this.liquidityTtl = 60000;
     }
 
     async getSolPrice() {
@@ -20,6 +63,79 @@ class PriceService {
         return this.solPrice;
     }
 
+    // Returns a cached value while fresh; concurrent callers share one in-flight request
+    private async cached<T>(cache: Cache<T>, key: string, ttl: number, loader: () => Promise<T>, fallback: T): Promise<T> {
+        const entry = cache.values.get(key);
+        if (entry && Date.now() - entry.fetchedAt < ttl) {
+            return entry.value;
+        }
+
+        let request = cache.pending.get(key);
+        if (!request) {
+            request = loader()
+                .then(value => {
+                    cache.values.set(key, { value, fetchedAt: Date.now() });
+                    return value;
+                })
+                .catch((error: any) => {
+                    logger.warn(`Market data lookup failed for ${key}: ${error.message}`);
+                    // Serve stale data rather than nothing
+                    return entry ? entry.value : fallback;
+                })
+                .finally(() => cache.pending.delete(key));
+            cache.pending.set(key, request);
+        }
+        return request;
+    }
+
+    async getTokenSupply(mintAddress: string) {
+        return this.cached(this.supplyCache, mintAddress, this.supplyTtl,
+            () => requestQueue.run(() => helius.getTokenSupply(mintAddress), SUPPLY_TIMEOUT), 0);
+    }
+
+    async getPoolData(mintAddress: string) {
+        return this.cached(this.liquidityCache, mintAddress, this.liquidityTtl, async () => {
+            const response = await axios.get(
+                `https://api.dexscreener.com/latest/dex/tokens/${mintAddress}`,
+                { timeout: 5000 }
+            );
+            const pairs: any[] = (response.data?.pairs || []).filter((pair: any) => pair.chainId === 'solana');
+            const liquidityUsd = pairs.reduce((sum, pair) => sum + (Number(pair.liquidity?.usd) || 0), 0);
+            // Deepest pool gives the most reliable reference price
+            const deepest = [...pairs].sort((a, b) => (Number(b.liquidity?.usd) || 0) - (Number(a.liquidity?.usd) || 0))[0];
+            const pools: Record<string, PoolReserve> = Object.fromEntries(pairs.map(pair => {
+                // Our token can sit on either side of a pair
+                const isBase = pair.baseToken?.address === mintAddress;
+                const quote = isBase ? pair.quoteToken : pair.baseToken;
+                return [pair.pairAddress, {
+                    liquidityUsd: Number(pair.liquidity?.usd) || 0,
+                    quoteReserve: Number(isBase ? pair.liquidity?.quote : pair.liquidity?.base) || 0,
+                    quoteSymbol: quote?.address === WSOL_MINT ? 'SOL' : String(quote?.symbol || '?'),
+                }];
+            }));
+            const solReserve = Object.values(pools)
+                .filter(pool => pool.quoteSymbol === 'SOL')
+                .reduce((sum, pool) => sum + pool.quoteReserve, 0);
+            return { liquidityUsd, priceUsd: Number(deepest?.priceUsd) || 0, solReserve, pools };
+        }, { liquidityUsd: 0, priceUsd: 0, solReserve: 0, pools: {} });
+    }
+
+    // tradePriceUsd is the price implied by the trade itself and takes precedence over the pool quote
+    async getTokenMarketData(mintAddress: string, tradePriceUsd = 0): Promise<TokenMarketData> {
+        const [supply, pool] = await Promise.all([
+            this.getTokenSupply(mintAddress),
+            this.getPoolData(mintAddress),
+        ]);
+
+        const priceUsd = tradePriceUsd > 0 ? tradePriceUsd : pool.priceUsd;
+        return {
+            priceUsd,
+            supply,
+            marketCap: priceUsd * supply,
+            liquidityUsd: pool.liquidityUsd,
+        };
+    }
+
     async updatePrice() {
         try {
             await withRetry(async () => {
@@ -0,0 +1,108 @@
+import config from '../config';
+import logger from '../utils/logger';
+
+interface QueuedRequest {
+    run: () => Promise<void>;
+    // Set when the caller gave up waiting; skipped instead of spending the budget
+    abandoned: boolean;
+    // Settles on timeout so a hung request doesn't hold up everything queued behind it
+    timedOut: Promise<void>;
+}
+
+// Serialises Helius calls made on the bot's behalf and holds them to MAX_REQUESTS_PER_MINUTE
+class RequestQueue {
+    requestsThisMinute: number;
+    private queue: QueuedRequest[] = [];
+    private windowStart = Date.now();
+    private isProcessing = false;
+    private resetTimer: NodeJS.Timeout | null = null;
+
+    constructor() {
+        this.requestsThisMinute = 0;
+    }
+
+    size() {
+        return this.queue.length;
+    }
+
+    // `timeoutMs` bounds the wait including time spent in line; the request itself isn't cancelled
+    run<T>(request: () => Promise<T>, timeoutMs?: number): Promise<T> {
+        return new Promise((resolve, reject) => {
+            let timer: NodeJS.Timeout | undefined;
+            let giveUp = () => {};
+            const entry: QueuedRequest = {
+                abandoned: false,
+                timedOut: new Promise(settle => { giveUp = settle; }),
+                run: async () => {
+                    try {
+                        resolve(await request());
+                    } catch (error) {
+                        reject(error);
+                    } finally {
+                        if (timer) clearTimeout(timer);
+                    }
+                },
+            };
+
+            if (timeoutMs !== undefined) {
+                timer = setTimeout(() => {
+                    entry.abandoned = true;
+                    giveUp();
+                    reject(new Error(`Request timed out after ${timeoutMs}ms`));
+                }, timeoutMs);
+            }
+
+            this.queue.push(entry);
+            this.ensureResetTimer();
+            this.process();
+        });
+    }
+
+    private ensureResetTimer() {
+        if (this.resetTimer) return;
+        this.resetTimer = setInterval(() => {
+            this.requestsThisMinute = 0;
+            this.windowStart = Date.now();
+            this.process();
+        }, 60000);
+        this.resetTimer.unref();
+    }
+
+    private async process() {
+        if (this.isProcessing || this.queue.length === 0) return;
+
+        const now = Date.now();
+        if (now - this.windowStart > 60000) {
+            this.requestsThisMinute = 0;
+            this.windowStart = now;
+        }
+
+        if (this.requestsThisMinute >= config.features.maxRequestsPerMinute) {
+            logger.warn(`Rate limit reached (${this.requestsThisMinute}/${config.features.maxRequestsPerMinute}), queuing requests`);
+            return;
+        }
+
+        this.isProcessing = true;
+        let request = this.queue.shift();
+        while (request?.abandoned) request = this.queue.shift();
+
+        if (request) {
+            this.requestsThisMinute++;
+            try {
+                await Promise.race([request.run(), request.timedOut]);
+            } catch (error: any) {
+                logger.error('Queued request failed:', error);
+            }
+
+            setTimeout(() => {
+                this.isProcessing = false;
+                this.process();
+            }, 1000); // Increased delay between requests
+        } else {
+            this.isProcessing = false;
+        }
+    }
+}
+
+export { RequestQueue };
+export default new RequestQueue();
@@ -0,0 +1,264 @@
+import config from '../config';
+import logger from '../utils/logger';
+import helius from './helius';
+import priceService from './priceService';
+import requestQueue from './requestQueue';
+import telegram from './telegram';
+import tokenRegistry from './tokenRegistry';
+import TransactionParser from './parser';
+import { txUrl } from './explorers';
+import { DEX_PROGRAMS } from './dexRegistry';
+import { RiskAlertKind, TokenConfig, TradeData } from '../types';
+
+const ALERTS: Record<RiskAlertKind, { emoji: string; title: string }> = {
+    large_sell: { emoji: '🔻', title: 'Large sell' },
+    sell_pressure: { emoji: '📉', title: 'Sell pressure' },
+    holder_concentration: { emoji: '🏦', title: 'Top-holder share changed' },
+    liquidity_pulled: { emoji: '💧', title: 'Liquidity pulled' },
+};
+
+// Share of supply held by this many of the largest accounts, pool vaults left out
+const TOP_HOLDERS = 10;
+const LOOKUP_TIMEOUT = 30000;
+
+// Shared vault authorities (PDAs with no account of their own) for pools that don't own their vaults
+const POOL_AUTHORITIES = new Set([
+    '5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1', // Raydium AMM v4
+    'GpMZbSM2GgvTKHJirzeGfMFoaZ8UR2X7F4v8vHTvxFbL', // Raydium CPMM
+]);
+
+interface WindowTrade {
+    at: number;
+    type: TradeData['type'];
+    amountSol: number;
+}
+
+// Sends admin alerts for large sells, one-sided selling, top-holder shifts and liquidity pulls
+class RiskMonitor {
+    counters: Record<RiskAlertKind, number>;
+    private interval: NodeJS.Timeout | null = null;
+    private baselineTimer: NodeJS.Timeout | null = null;
+    // mint -> trades inside the sell pressure window, oldest first
+    private windows = new Map<string, WindowTrade[]>();
+    // mint -> top-holder share (% of supply) at the last check
+    private topShares = new Map<string, number>();
+    // token account -> owner, and owner -> whether it's a pool; neither changes, so they're never refreshed
+    private accountOwners = new Map<string, string>();
+    private poolOwners = new Map<string, boolean>();
+    // `${mint}:${pool}` -> quote-side reserve at the last check; pool is 'all' (SOL pairs) when none are tracked
+    private liquidity = new Map<string, number>();
+    // `${mint}:${kind}` -> time of the last alert (ms)
+    private lastAlerts = new Map<string, number>();
+
+    constructor() {
+        this.counters = { large_sell: 0, sell_pressure: 0, holder_concentration: 0, liquidity_pulled: 0 };
+    }
+
+    // Called for every recorded trade, alerted or not
+    async onTrade(tradeData: TradeData) {
+        const token = tokenRegistry.get(tradeData.mint);
+        if (!token || tradeData.type === 'UNKNOWN') return;
+
+        this.checkSellPressure(token, tradeData);
+        if (tradeData.type === 'SELL') await this.checkLargeSell(token, tradeData);
+    }
+
+    start() {
+        if (config.features.riskCheckInterval <= 0 || this.interval) return;
+
+        // The first pass only records a baseline to compare against
+        this.baselineTimer = setTimeout(() => {
+            this.baselineTimer = null;
+            this.checkAll();
+        }, 15000);
+        this.interval = setInterval(() => this.checkAll(), config.features.riskCheckInterval);
+        logger.info(`Checking holder concentration and liquidity every ${config.features.riskCheckInterval}ms`);
+    }
+
+    stop() {
+        if (this.baselineTimer) {
+            clearTimeout(this.baselineTimer);
+            this.baselineTimer = null;
+        }
+        if (this.interval) {
+            clearInterval(this.interval);
+            this.interval = null;
+        }
+    }
+
+    async checkAll() {
+        for (const token of tokenRegistry.all()) {
+            try {
+                await this.checkTopHolders(token);
+            } catch (error: any) {
+                logger.warn(`Top-holder check failed for ${token.symbol}: ${error.message}`);
+            }
+            try {
+                await this.checkLiquidity(token);
+            } catch (error: any) {
+                logger.warn(`Liquidity check failed for ${token.symbol}: ${error.message}`);
+            }
+        }
+    }
+
+    private async checkLargeSell(token: TokenConfig, tradeData: TradeData) {
+        const { sellSupplyPct, sellLiquidityPct } = token.risk;
+        const details: string[] = [];
+
+        if (sellSupplyPct > 0) {
+            const supply = await priceService.getTokenSupply(tradeData.mint);
+            const pct = supply > 0 ? tradeData.tokensBought / supply * 100 : 0;
+            if (pct >= sellSupplyPct) {
+                details.push(`📊 **Supply**: ${pct.toFixed(2)}% (limit ${sellSupplyPct}%)`);
+            }
+        }
+
+        if (sellLiquidityPct > 0 && tradeData.amountUsd > 0) {
+            const pool = await priceService.getPoolData(tradeData.mint);
+            const pct = pool.liquidityUsd > 0 ? tradeData.amountUsd / pool.liquidityUsd * 100 : 0;
+            if (pct >= sellLiquidityPct) {
+                details.push(`💧 **Liquidity**: ${pct.toFixed(2)}% of $${TransactionParser.formatNumber(pool.liquidityUsd)} (limit ${sellLiquidityPct}%)`);
+            }
+        }
+
+        if (details.length === 0) return;
+        this.alert(token, 'large_sell', [
+            `👤 **Seller**: ${telegram.formatWallet(tradeData.buyer, token.explorer)}`,
+            `🪙 **Tokens**: ${TransactionParser.formatNumber(tradeData.tokensBought)} ${token.symbol}`,
+            `💰 **Received**: ${tradeData.amountSol.toFixed(4)} SOL` +
+                (tradeData.amountUsd > 0 ? ` ($${TransactionParser.formatNumber(tradeData.amountUsd)})` : ''),
+            ...details,
+        ], txUrl(tradeData.signature, token.explorer));
+    }
+
+    private checkSellPressure(token: TokenConfig, tradeData: TradeData) {
+        const { sellPressureRatio, sellPressureMinSol, window } = token.risk;
+        if (sellPressureRatio <= 0 || window <= 0) return;
+
+        const at = tradeData.timestamp.getTime();
+        const trades = (this.windows.get(token.mintAddress) || [])
+            .filter(trade => at - trade.at <= window * 1000);
+        trades.push({ at, type: tradeData.type, amountSol: tradeData.amountSol });
+        this.windows.set(token.mintAddress, trades);
+
+        if (tradeData.type !== 'SELL') return;
+
+        let bought = 0;
+        let sold = 0;
+        for (const trade of trades) {
+            if (trade.type === 'BUY') bought += trade.amountSol;
+            else if (trade.type === 'SELL') sold += trade.amountSol;
+        }
+        if (sold < sellPressureMinSol || sold < bought * sellPressureRatio) return;
+
+        this.alert(token, 'sell_pressure', [
+            `⏱ **Window**: last ${window}s`,
+            `🔴 **Sold**: ${sold.toFixed(2)} SOL (${trades.filter(trade => trade.type === 'SELL').length} sells)`,
+            `🟢 **Bought**: ${bought.toFixed(2)} SOL (${trades.filter(trade => trade.type === 'BUY').length} buys)`,
+            `⚖️ **Ratio**: ${bought > 0 ? `${(sold / bought).toFixed(1)}x` : 'no buys'} (limit ${sellPressureRatio}x)`,
+        ]);
+    }
+
+    private async checkTopHolders(token: TokenConfig) {
+        if (token.risk.topHolderChangePct <= 0) return;
+
+        const [accounts, supply] = await Promise.all([
+            requestQueue.run(() => helius.getLargestAccounts(token.mintAddress), LOOKUP_TIMEOUT),
+            priceService.getTokenSupply(token.mintAddress),
+        ]);
+        // getTokenSupply reports 0 on failure
+        if (supply <= 0 || accounts.length === 0) return;
+
+        const vaults = await this.findPoolVaults(token, accounts.map(account => account.address));
+        const held = accounts
+            .filter(account => !vaults.has(account.address))
+            .slice(0, TOP_HOLDERS)
+            .reduce((sum, account) => sum + account.amount, 0);
+        const share = held / supply * 100;
+        const previous = this.topShares.get(token.mintAddress);
+        this.topShares.set(token.mintAddress, share);
+
+        if (previous === undefined || Math.abs(share - previous) < token.risk.topHolderChangePct) return;
+
+        const change = share - previous;
+        this.alert(token, 'holder_concentration', [
+            `🏦 **Top ${TOP_HOLDERS} share**: ${previous.toFixed(2)}% → ${share.toFixed(2)}%`,
+            `📊 **Change**: ${change > 0 ? '+' : ''}${change.toFixed(2)} points (limit ${token.risk.topHolderChangePct})`,
+        ]);
+    }
+
+    // Vaults are owned by a tracked pool, a shared AMM authority, or an account a DEX program owns
+    private async findPoolVaults(token: TokenConfig, accountAddresses: string[]) {
+        const unknown = accountAddresses.filter(address => !this.accountOwners.has(address));
+        if (unknown.length > 0) {
+            const owners = await requestQueue.run(() => helius.getTokenAccountOwners(unknown), LOOKUP_TIMEOUT);
+            const newOwners = [...new Set(owners.filter((owner): owner is string => owner !== null))]
+                .filter(owner => !this.poolOwners.has(owner));
+            const programs = newOwners.length > 0
+                ? await requestQueue.run(() => helius.getAccountPrograms(newOwners), LOOKUP_TIMEOUT)
+                : [];
+
+            newOwners.forEach((owner, i) => {
+                const program = programs[i];
+                this.poolOwners.set(owner, POOL_AUTHORITIES.has(owner) || (!!program && program in DEX_PROGRAMS));
+            });
+            unknown.forEach((address, i) => {
+                const owner = owners[i];
+                if (owner) this.accountOwners.set(address, owner);
+            });
+        }
+
+        return new Set(accountAddresses.filter(address => {
+            const owner = this.accountOwners.get(address);
+            return !!owner && (this.poolOwners.get(owner) || token.poolAddresses.includes(owner));
+        }));
+    }
+
+    private async checkLiquidity(token: TokenConfig) {
+        if (token.risk.liquidityDropPct <= 0) return;
+
+        const pool = await priceService.getPoolData(token.mintAddress);
+        // An empty pool list means the lookup failed, not that liquidity is gone
+        if (Object.keys(pool.pools).length === 0) return;
+
+        // USD liquidity falls with our own price, so a dump would read as a pull; the paired side doesn't
+        const readings: [string, number, string][] = token.poolAddresses.length > 0
+            ? token.poolAddresses.flatMap(address => {
+                const reserve = pool.pools[address];
+                return reserve ? [[address, reserve.quoteReserve, reserve.quoteSymbol] as [string, number, string]] : [];
+            })
+            : [['all', pool.solReserve, 'SOL']];
+
+        for (const [address, reserve, symbol] of readings) {
+            const key = `${token.mintAddress}:${address}`;
+            const previous = this.liquidity.get(key);
+            this.liquidity.set(key, reserve);
+
+            if (previous === undefined || previous <= 0) continue;
+            const drop = (previous - reserve) / previous * 100;
+            if (drop < token.risk.liquidityDropPct) continue;
+
+            this.alert(token, 'liquidity_pulled', [
+                `🏊 **Pool**: ${address === 'all' ? 'all SOL pools' : `\`${address}\``}`,
+                `💧 **${symbol} side**: ${TransactionParser.formatNumber(previous)} → ${TransactionParser.formatNumber(reserve)} ${symbol}`,
+                `📉 **Drop**: ${drop.toFixed(1)}% (limit ${token.risk.liquidityDropPct}%)`,
+            ]);
+        }
+    }
+
+    private alert(token: TokenConfig, kind: RiskAlertKind, details: string[], link?: string) {
+        const key = `${token.mintAddress}:${kind}`;
+        const lastAlert = this.lastAlerts.get(key);
+        if (lastAlert !== undefined && Date.now() - lastAlert < token.risk.cooldown * 1000) {
+            logger.debug(`Risk alert ${kind} for ${token.symbol} is cooling down`);
+            return;
+        }
+
+        this.lastAlerts.set(key, Date.now());
+        this.counters[kind]++;
+        logger.warn(`Risk alert for ${token.symbol}: ${ALERTS[kind].title}`);
+        telegram.sendRiskAlert(token, { ...ALERTS[kind], details, ...(link ? { link } : {}) });
+    }
+}
+
+export default new RiskMonitor();
@@ -0,0 +1,277 @@
+import fs from 'fs/promises';
+import path from 'path';
+import config from '../config';
+import logger from '../utils/logger';
+import { Competition, OutboundMessage, PersistedState, PollGap, TradeData, TradeRecord, WalletActivity } from '../types';
+
+interface StorageBackend {
+    name: string;
+    read(): Promise<Partial<PersistedState> | null>;
+    write(state: PersistedState): Promise<void>;
+    // Moves unreadable state out of the way and says where it went
+    setAside?(): Promise<string>;
+}
+
+class JsonFileBackend implements StorageBackend {
+    name = 'json';
+    filePath: string;
+    constructor(filePath: string) {
+        this.filePath = path.resolve(filePath);
+    }
+
+    async read() {
+        try {
+            const contents = await fs.readFile(this.filePath, 'utf8');
+            return JSON.parse(contents);
+        } catch (error: any) {
+            if (error.code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    async write(state: PersistedState) {
+        // Write to a temp file first so a crash mid-write never leaves a truncated state file
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tempPath, JSON.stringify(state));
+        await fs.rename(tempPath, this.filePath);
+    }
+
+    async setAside() {
+        const asidePath = `${this.filePath}.corrupt-${Date.now()}`;
+        await fs.rename(this.filePath, asidePath);
+        return asidePath;
+    }
+}
+
+class MemoryBackend implements StorageBackend {
+    name = 'memory';
+    state: PersistedState | null = null;
+
+    async read() {
+        return this.state;
+    }
+
+    async write(state: PersistedState) {
+        this.state = state;
+    }
+}
+
+function emptyState(): PersistedState {
+    return {
+        signatures: [],
+        stats: { tokens: {} },
+        trades: [],
+        cursors: {},
+        pollGaps: {},
+        outbox: [],
+        mediaFileIds: {},
+        wallets: {},
+        competitions: [],
+    };
+}
+
+class StorageService {
+    backend: StorageBackend;
+    state: PersistedState;
+    loaded: boolean;
+    // Set when stored state couldn't be read or moved aside; writing would overwrite it
+    loadError: string | null;
+    private saveTimer: NodeJS.Timeout | null = null;
+
+    constructor(backend?: StorageBackend) {
+        this.backend = backend || (config.storage.backend === 'memory'
+            ? new MemoryBackend()
+            : new JsonFileBackend(config.storage.filePath));
+        this.state = emptyState();
+        this.loaded = false;
+        this.loadError = null;
+    }
+
+    async load() {
+        try {
+            const stored = await this.backend.read();
+            this.state = { ...emptyState(), ...stored };
+            logger.info(`Loaded state from ${this.backend.name} storage: ${this.state.signatures.length} signatures, ${this.state.trades.length} trades`);
+        } catch (error: any) {
+            this.state = emptyState();
+            try {
+                if (!this.backend.setAside) throw new Error(`${this.backend.name} storage can't set state aside`);
+                const asidePath = await this.backend.setAside();
+                logger.error(`Failed to load persisted state, moved it to ${asidePath} and starting fresh: ${error.message}`);
+            } catch (asideError: any) {
+                this.loadError = error.message;
+                logger.error(`Failed to load persisted state (${error.message}) and couldn't move it aside (${asideError.message}); ` +
+                    'running without saving until it is fixed and the bot restarted');
+            }
+        }
+        this.loaded = true;
+        return this.state;
+    }
+
+    scheduleSave() {
+        if (this.saveTimer) return;
+
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            this.flush().catch(() => {});
+        }, config.storage.flushDelay);
+    }
+
+    async flush() {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        if (this.loadError) {
+            logger.debug('Skipping state save: stored state failed to load');
+            return;
+        }
+
+        try {
+            await this.backend.write(this.state);
+        } catch (error: any) {
+            logger.error(`Failed to persist state: ${error.message}`);
+            throw error;
+        }
+    }
+
+    addSignature(signature: string) {
+        this.state.signatures.push(signature);
+        if (this.state.signatures.length > config.storage.maxSignatures) {
+            this.state.signatures.splice(0, this.state.signatures.length - config.storage.maxSignatures);
+        }
+        this.scheduleSave();
+    }
+
+    getSignatures() {
+        return [...this.state.signatures];
+    }
+
+    setStats(stats: PersistedState['stats']) {
+        this.state.stats = stats;
+        this.scheduleSave();
+    }
+
+    getStats() {
+        return this.state.stats;
+    }
+
+    addTrade(tradeData: TradeData) {
+        const record: TradeRecord = {
+            signature: tradeData.signature,
+            mint: tradeData.mint,
+            symbol: tradeData.symbol,
+            buyer: tradeData.buyer,
+            quoteSymbol: tradeData.quoteSymbol,
+            quoteAmount: tradeData.quoteAmount,
+            amountSol: tradeData.amountSol,
+            amountUsd: tradeData.amountUsd,
+            tokensBought: tradeData.tokensBought,
+            pricePerToken: tradeData.pricePerToken,
+            type: tradeData.type,
+            timestamp: tradeData.timestamp.toISOString(),
+            dex: tradeData.dex,
+            isWhale: tradeData.isWhale,
+        };
+
+        this.state.trades.push(record);
+        if (this.state.trades.length > config.storage.maxTrades) {
+            this.state.trades.splice(0, this.state.trades.length - config.storage.maxTrades);
+        }
+        this.scheduleSave();
+    }
+
+    // Newest signature fully processed per address, so polling resumes where it stopped
+    getCursor(address: string) {
+        return this.state.cursors[address];
+    }
+
+    setCursor(address: string, signature: string) {
+        this.state.cursors[address] = signature;
+        this.scheduleSave();
+    }
+
+    getWebhookId() {
+        return this.state.webhookId;
+    }
+
+    setWebhookId(webhookId: string) {
+        this.state.webhookId = webhookId;
+        this.scheduleSave();
+    }
+
+    getPollGaps(address: string) {
+        return [...(this.state.pollGaps[address] || [])];
+    }
+
+    setPollGaps(address: string, gaps: PollGap[]) {
+        if (gaps.length > 0) {
+            this.state.pollGaps[address] = gaps;
+        } else {
+            delete this.state.pollGaps[address];
+        }
+        this.scheduleSave();
+    }
+
+    // Undelivered Telegram messages, in send order per chat
+    setOutbox(messages: OutboundMessage[]) {
+        this.state.outbox = messages;
+        this.scheduleSave();
+    }
+
+    getOutbox() {
+        return [...this.state.outbox];
+    }
+
+    // Telegram file_ids for uploaded media, keyed by configured source, so files are uploaded once
+    getMediaFileId(source: string) {
+        return this.state.mediaFileIds[source];
+    }
+
+    setMediaFileId(source: string, fileId: string | null) {
+        if (fileId) {
+            this.state.mediaFileIds[source] = fileId;
+        } else {
+            delete this.state.mediaFileIds[source];
+        }
+        this.scheduleSave();
+    }
+
+    getWalletActivity(mintAddress: string, wallet: string): WalletActivity | undefined {
+        return this.state.wallets[`${mintAddress}:${wallet}`];
+    }
+
+    setWalletActivity(mintAddress: string, wallet: string, activity: WalletActivity) {
+        const key = `${mintAddress}:${wallet}`;
+        // Re-inserting keeps the object ordered by last activity, so the oldest wallets are evicted first
+        delete this.state.wallets[key];
+        this.state.wallets[key] = activity;
+
+        const keys = Object.keys(this.state.wallets);
+        for (const staleKey of keys.slice(0, Math.max(keys.length - config.storage.maxWallets, 0))) {
+            delete this.state.wallets[staleKey];
+        }
+        this.scheduleSave();
+    }
+
+    setCompetitions(competitions: Competition[]) {
+        this.state.competitions = competitions;
+        this.scheduleSave();
+    }
+
+    getCompetitions() {
+        return [...this.state.competitions];
+    }
+
+    getTrades(limit = 10, mintAddress?: string) {
+        const trades = mintAddress
+            ? this.state.trades.filter(trade => trade.mint === mintAddress)
+            : this.state.trades;
+        return trades.slice(-limit).reverse();
+    }
+}
+
+export type { StorageBackend };
+export { JsonFileBackend, MemoryBackend, StorageService };
+export default new StorageService();
@@ -4,72 +4,361 @@ import logger from '../utils/logger';
 import priceService from './priceService';
 import TransactionParser from './parser';
 import  withRetry  from '../utils/retry';
+import tokenRegistry from './tokenRegistry';
+import storage from './storage';
+import templates, { TemplateName } from './templates';
+import dexRegistry from './dexRegistry';
+import { accountUrl, txUrl } from './explorers';
+import walletLabels from './walletLabels';
+import tradeFlags from './tradeFlags';
+import { OutboundQueue } from './outboundQueue';
+import type { BackfillResult } from './backfill';
+import { Explorer, MediaConfig, OutboundMessage, TokenConfig, TokenMarketData, TokenStats, TradeData } from '../types';
+
+// Telegram rejects captions longer than this; longer alerts go out as plain text
+const CAPTION_LIMIT = 1024;
+
+function emptyStats(): TokenStats {
+    return {
+        totalRaised: 0,
+        totalHolders: 0,
+        transactionCount: 0,
+        buyVolume: 0,
+        sellVolume: 0,
+        netFlow: 0,
+        buyCount: 0,
+        sellCount: 0
+    };
+}
 
 class TelegramService {
     bot: TelegramBot;
-    stats: {
-        totalRaised: number;
-        totalHolders: number;
-        transactionCount: number;
-    };
+    stats: TokenStats;
+    tokenStats: Map<string, TokenStats>;
+    outbox: OutboundQueue;
     constructor() {
         this.bot = new TelegramBot(config.telegram.botToken);
-        this.stats = {
-            totalRaised: 0,
-            totalHolders: 0,
-            transactionCount: 0
-        };
+        this.stats = emptyStats();
+        this.tokenStats = new Map();
+        this.outbox = new OutboundQueue(
+            (message) => this.deliver(message),
+            (message, error) => {
+                this.sendErrorAlert(`Dropped message for chat ${message.chatId}: ${error.message}`);
+            }
+        );
     }
 
-    async sendTradeNotification(tradeData: any, tokenMetrics: Partial<{ totalHolders: number }> = {}) {
-        try {
-            await withRetry(async () => {
-                // Update stats
-                this.stats.totalRaised += tradeData.amountSol;
-                this.stats.totalHolders = tokenMetrics.totalHolders || this.stats.totalHolders;
-                this.stats.transactionCount++;
+    getTokenStats(mintAddress: string): TokenStats {
+        let stats = this.tokenStats.get(mintAddress);
+        if (!stats) {
+            stats = emptyStats();
+            this.tokenStats.set(mintAddress, stats);
+        }
+        return stats;
+    }
+
+    restoreStats() {
+        // Older state files predate some counters, so fill gaps from emptyStats()
+        const { tokens, ...persisted } = storage.getStats();
+        this.stats = { ...emptyStats(), ...persisted };
+        this.tokenStats = new Map(
+            Object.entries(tokens || {}).map(([mint, stats]) => [mint, { ...emptyStats(), ...stats }])
+        );
+        this.stats.totalHolders = this.sumHolders();
+    }
+
+    persistStats() {
+        storage.setStats({
+            ...this.stats,
+            tokens: Object.fromEntries(this.tokenStats),
+        });
+    }
+
+    private sumHolders() {
+        return [...this.tokenStats.values()].reduce((sum, stats) => sum + stats.totalHolders, 0);
+    }
+
+    setHolderCount(mintAddress: string, totalHolders: number) {
+        this.getTokenStats(mintAddress).totalHolders = totalHolders;
+        this.stats.totalHolders = this.sumHolders();
+        this.persistStats();
+    }
 
-                const solPrice = await priceService.getSolPrice();
-                const usdValue = tradeData.amountSol * solPrice;
-                
-                let emoji = '🟢';
-                if (tradeData.isWhale) emoji = '🐋';
-                else if (tradeData.amountSol >= 1) emoji = '🚀';
-                else if (tradeData.amountSol >= 0.1) emoji = '💎';
+    queueMessage(chatId: string, text: string, options: TelegramBot.SendMessageOptions = {}, media?: MediaConfig) {
+        this.outbox.enqueue(chatId, text, options, media);
+    }
 
-                const actionLabel = tradeData.type === 'BUY' ? 'PURCHASE' : tradeData.type === 'SELL' ? 'SALE' : 'TRADE';
+    // Called by the outbound queue; media failures fall back to text so the alert still goes out
+    private async deliver(message: OutboundMessage) {
+        if (message.media && message.text.length <= CAPTION_LIMIT) {
+            try {
+                return await this.sendMedia(message.chatId, message.media, message.text, message.options);
+            } catch (error: any) {
+                // Rate limits are the queue's job; retrying as text would just hit the same limit
+                if (error.response?.body?.parameters?.retry_after) throw error;
+                logger.warn(`Media send to ${message.chatId} failed, falling back to text: ${error.message}`);
+            }
+        }
+        return this.bot.sendMessage(message.chatId, message.text, message.options);
+    }
 
+    private async sendMedia(chatId: string, media: MediaConfig, caption: string, options: Record<string, any>) {
+        const { disable_web_page_preview, ...rest } = options;
+        const cachedFileId = storage.getMediaFileId(media.source);
+        // A local path is uploaded; a URL or file_id is passed through for Telegram to fetch
+        const input = cachedFileId || media.source;
+        const sendOptions = { ...rest, caption };
 
-                const message = `
-${emoji} **NEW ${config.token.symbol} ${actionLabel}${tradeData.isWhale ? ' - WHALE ALERT!' : ''}**
+        try {
+            const sent = media.type === 'animation'
+                ? await this.bot.sendAnimation(chatId, input, sendOptions)
+                : media.type === 'video'
+                    ? await this.bot.sendVideo(chatId, input, sendOptions)
+                    : await this.bot.sendPhoto(chatId, input, sendOptions);
 
+            // Photos come back in several sizes; the last is the original
+            const photo = sent.photo?.[sent.photo.length - 1];
+            const fileId = sent.animation?.file_id || sent.video?.file_id || sent.document?.file_id || photo?.file_id;
+            if (fileId && fileId !== cachedFileId) {
+                storage.setMediaFileId(media.source, fileId);
+            }
+            return sent;
+        } catch (error: any) {
+            // A stale file_id (e.g. after changing bots) should be re-uploaded next time
+            if (cachedFileId && error.response?.statusCode === 400) {
+                storage.setMediaFileId(media.source, null);
+            }
+            throw error;
+        }
+    }
 
-💰 **Amount**: ${tradeData.amountSol.toFixed(4)} SOL ${solPrice > 0 ? `($${TransactionParser.formatNumber(usdValue)})` : ''}
-🪙 **Tokens**: ${TransactionParser.formatNumber(tradeData.tokensBought)} ${config.token.symbol}
-💵 **Price**: $${tradeData.pricePerToken.toFixed(8)}
-📊 **Total Raised**: ${TransactionParser.formatNumber(this.stats.totalRaised)} SOL
-👥 **Holders**: ${TransactionParser.formatNumber(this.stats.totalHolders)}
-🔄 **DEX**: ${tradeData.dex}
-⏰ **Time**: ${tradeData.timestamp.toLocaleTimeString()}
+    // Whale buys use the whale media when set; sells never carry media
+    getMedia(tradeData: TradeData) {
+        const media = tokenRegistry.get(tradeData.mint)?.media;
+        if (!media || tradeData.type !== 'BUY') return undefined;
+        return (tradeData.isWhale && media.whale) || media.buy;
+    }
 
-🔗 [View Transaction](https://solscan.io/tx/${tradeData.signature})
-${tradeData.isWhale ? '\n🚨 **WHALE ALERT** 🚨' : ''}
-                `.trim();
+    getChannelId(mintAddress: string) {
+        return tokenRegistry.get(mintAddress)?.channelId || config.telegram.channelId;
+    }
 
-                await this.bot.sendMessage(config.telegram.channelId, message, {
-                    parse_mode: 'Markdown',
-                    disable_web_page_preview: true
-                });
+    // Update running stats once per trade, independent of whether the alert is sent
+    recordTrade(tradeData: TradeData, tokenMetrics: Partial<{ totalHolders: number }> = {}) {
+        const tokenStats = this.getTokenStats(tradeData.mint);
 
-                logger.info(`Notification sent for ${tradeData.signature} (${tradeData.amountSol} SOL)`);
-            }, config.telegram.retryAttempts, config.telegram.retryDelay, 'Send notification');
+        for (const stats of [this.stats, tokenStats]) {
+            stats.transactionCount++;
+            if (tradeData.type === 'SELL') {
+                stats.sellVolume += tradeData.amountSol;
+                stats.sellCount++;
+            } else {
+                // "Total Raised" only counts money coming in
+                stats.totalRaised += tradeData.amountSol;
+                stats.buyVolume += tradeData.amountSol;
+                stats.buyCount++;
+            }
+            stats.netFlow = stats.buyVolume - stats.sellVolume;
+        }
+        tokenStats.totalHolders = tokenMetrics.totalHolders || tokenStats.totalHolders;
+        this.stats.totalHolders = this.sumHolders();
+        this.persistStats();
+
+        return tokenStats;
+    }
+
+    async sendTradeNotification(tradeData: TradeData, tokenMetrics: Partial<{ totalHolders: number }> = {}) {
+        const tokenStats = this.recordTrade(tradeData, tokenMetrics);
 
+        try {
+            const marketData = await withRetry(() => priceService.getTokenMarketData(
+                tradeData.mint,
+                tradeData.tokensBought > 0 ? tradeData.amountUsd / tradeData.tokensBought : 0
+            ), config.telegram.retryAttempts, config.telegram.retryDelay, 'Market data');
+            const message = this.buildTradeMessage(tradeData, tokenStats, marketData);
+
+            // Delivery, ordering and Telegram rate limits are handled by the outbound queue
+            const keyboard = this.buildKeyboard(tradeData);
+            this.queueMessage(this.getChannelId(tradeData.mint), message, {
+                parse_mode: 'Markdown',
+                disable_web_page_preview: true,
+                ...(keyboard ? { reply_markup: keyboard } : {})
+            }, this.getMedia(tradeData));
+            logger.info(`Notification queued for ${tradeData.signature} (${tradeData.amountSol} SOL)`);
         } catch (error: any) {
-            logger.error('Failed to send notification after retries:', error);
-            await this.sendErrorAlert(`Failed to send trade notification: ${error.message}`);
+            logger.error('Failed to build trade notification:', error);
+            await this.sendErrorAlert(`Failed to build trade notification: ${error.message}`);
+        }
+    }
+
+    // Fills the token's button URL templates and lays them out BUTTONS_PER_ROW to a row
+    buildKeyboard(tradeData: TradeData): TelegramBot.InlineKeyboardMarkup | undefined {
+        const token = tokenRegistry.get(tradeData.mint);
+        if (!token || token.buttons.length === 0) return undefined;
+
+        const values: Record<string, string> = {
+            mint: tradeData.mint,
+            signature: tradeData.signature,
+            buyer: tradeData.buyer,
+            symbol: tradeData.symbol,
+            txLink: txUrl(tradeData.signature, token.explorer),
+            walletLink: accountUrl(tradeData.buyer, token.explorer),
+        };
+        const buttons = token.buttons.map(button => ({
+            text: button.text,
+            url: button.url.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder),
+        }));
+
+        const rows: TelegramBot.InlineKeyboardButton[][] = [];
+        for (let i = 0; i < buttons.length; i += config.telegram.buttonsPerRow) {
+            rows.push(buttons.slice(i, i + config.telegram.buttonsPerRow));
+        }
+        return { inline_keyboard: rows };
+    }
+
+    buildTradeMessage(tradeData: TradeData, tokenStats: TokenStats, marketData: TokenMarketData) {
+        const actionLabel = tradeData.type === 'BUY' ? 'PURCHASE' : tradeData.type === 'SELL' ? 'SALE' : 'TRADE';
+        const dexLink = dexRegistry.getLink(tradeData.dex, tradeData.mint);
+        const token = tokenRegistry.get(tradeData.mint);
+        const label = walletLabels.get(tradeData.buyer);
+        const buyBar = token?.buyBar;
+        // Sells reuse the buy bar scale in the sell colour so the feed reads green/red at a glance
+        const bar = buyBar && tradeData.type === 'SELL'
+            ? { ...buyBar, emoji: templates.templates.sellEmoji }
+            : buyBar;
+
+        let templateName: TemplateName = 'buy';
+        if (tradeData.type === 'SELL') templateName = 'sell';
+        else if (tradeData.isWhale) templateName = 'whale';
+
+        return templates.render(templateName, {
+            emoji: templates.getEmoji(tradeData.amountSol, tradeData.isWhale, tradeData.type),
+            symbol: tradeData.symbol,
+            action: actionLabel,
+            amount: tradeData.amountSol.toFixed(4),
+            usd: tradeData.amountUsd > 0 ? `$${TransactionParser.formatNumber(tradeData.amountUsd)}` : 'N/A',
+            quote: tradeData.quoteSymbol === 'SOL'
+                ? `${tradeData.quoteAmount.toFixed(4)} SOL`
+                : `${TransactionParser.formatNumber(tradeData.quoteAmount)} ${tradeData.quoteSymbol}`,
+            tokens: TransactionParser.formatNumber(tradeData.tokensBought),
+            price: marketData.priceUsd > 0 ? `$${TransactionParser.formatPrice(marketData.priceUsd)}` : 'N/A',
+            buyer: tradeData.buyer,
+            dex: tradeData.dex,
+            dexLink: dexLink ? `[${tradeData.dex}](${dexLink})` : tradeData.dex,
+            marketcap: marketData.marketCap > 0 ? `$${TransactionParser.formatNumber(marketData.marketCap)}` : 'N/A',
+            liquidity: marketData.liquidityUsd > 0 ? `$${TransactionParser.formatNumber(marketData.liquidityUsd)}` : 'N/A',
+            link: txUrl(tradeData.signature, token?.explorer),
+            walletLink: accountUrl(tradeData.buyer, token?.explorer),
+            totalRaised: TransactionParser.formatNumber(tokenStats.totalRaised),
+            holders: TransactionParser.formatNumber(tokenStats.totalHolders),
+            time: tradeData.timestamp.toLocaleTimeString(),
+            signature: tradeData.signature,
+            bar: bar ? templates.renderBuyBar(tradeData.amountSol, bar) : '',
+            newHolder: tradeData.isNewHolder ? '🆕 **New holder!**' : '',
+            wallet: this.formatWallet(tradeData.buyer, token?.explorer),
+            flags: tradeFlags.label(tradeData.flags),
+            walletLabel: label ? `${label.emoji} **${label.label}** ${tradeData.type === 'SELL' ? 'sold' : 'bought'}` : '',
+            ...this.walletValues(tradeData),
+        });
+    }
+
+    async sendBackfillSummary(result: BackfillResult) {
+        const message = templates.render('backfill', {
+            symbol: result.symbol,
+            count: result.recorded,
+            buys: result.buys,
+            sells: result.sells,
+            buyVolume: TransactionParser.formatNumber(result.buyVolume),
+            sellVolume: TransactionParser.formatNumber(result.sellVolume),
+            netFlow: (result.buyVolume - result.sellVolume).toFixed(4),
+            whales: result.whales,
+            from: result.firstTradeAt ? new Date(result.firstTradeAt).toLocaleString() : 'N/A',
+            to: result.lastTradeAt ? new Date(result.lastTradeAt).toLocaleString() : 'N/A',
+        });
+
+        this.queueMessage(this.getChannelId(result.mint), message, {
+            parse_mode: 'Markdown',
+            disable_web_page_preview: true
+        });
+    }
+
+    // Labeled wallets show their label instead of the shortened address
+    formatWallet(address: string, explorer?: Explorer) {
+        const label = walletLabels.get(address);
+        const text = label ? label.label : TransactionParser.shortenAddress(address);
+        return `[${text}](${accountUrl(address, explorer)})`;
+    }
+
+    // The error channel doubles as the admin channel; without one, admins are messaged directly
+    getAdminChatIds() {
+        return config.telegram.errorChannelId ? [config.telegram.errorChannelId] : config.telegram.adminIds;
+    }
+
+    sendWatchlistAlert(tradeData: TradeData, position: number | null) {
+        const label = walletLabels.get(tradeData.buyer);
+        if (!label) return;
+
+        const token = tokenRegistry.get(tradeData.mint);
+        const message = templates.render('watchlist', {
+            emoji: label.emoji,
+            label: label.label,
+            action: tradeData.type === 'SELL' ? 'sold' : 'bought',
+            symbol: tradeData.symbol,
+            amount: tradeData.amountSol.toFixed(4),
+            quote: tradeData.quoteSymbol === 'SOL'
+                ? `${tradeData.quoteAmount.toFixed(4)} SOL`
+                : `${TransactionParser.formatNumber(tradeData.quoteAmount)} ${tradeData.quoteSymbol}`,
+            usd: tradeData.amountUsd > 0 ? `$${TransactionParser.formatNumber(tradeData.amountUsd)}` : 'N/A',
+            tokens: TransactionParser.formatNumber(tradeData.tokensBought),
+            wallet: this.formatWallet(tradeData.buyer, token?.explorer),
+            position: position !== null ? `${TransactionParser.formatNumber(position)} ${tradeData.symbol}` : 'N/A',
+            dex: tradeData.dex,
+            link: txUrl(tradeData.signature, token?.explorer),
+        });
+
+        for (const chatId of this.getAdminChatIds()) {
+            this.queueMessage(chatId, message, { parse_mode: 'Markdown', disable_web_page_preview: true });
         }
     }
 
+    sendRiskAlert(token: TokenConfig, alert: { emoji: string; title: string; details: string[]; link?: string }) {
+        const message = templates.render('risk', {
+            emoji: alert.emoji,
+            title: alert.title,
+            symbol: token.symbol,
+            details: alert.details.join('\n'),
+            link: alert.link ? `🔗 [View Transaction](${alert.link})` : '',
+            time: new Date().toISOString(),
+        });
+
+        for (const chatId of this.getAdminChatIds()) {
+            this.queueMessage(chatId, message, { parse_mode: 'Markdown', disable_web_page_preview: true });
+        }
+    }
+
+    private walletValues(tradeData: TradeData) {
+        const profile = tradeData.walletProfile;
+        if (!profile) {
+            return { position: 'N/A', buyerStatus: '', walletHistory: 'N/A' };
+        }
+
+        const { activity } = profile;
+        let buyerStatus = '';
+        if (profile.isFirstBuy) buyerStatus = '(first buy)';
+        else if (profile.isRepeatBuyer) {
+            buyerStatus = activity.buys > 1 ? `(repeat buyer, ${activity.buys} buys)` : '(adding to position)';
+        }
+
+        return {
+            position: profile.position !== null
+                ? `${TransactionParser.formatNumber(profile.position)} ${tradeData.symbol}`
+                : 'N/A',
+            buyerStatus,
+            walletHistory: `${activity.buys} buys (${TransactionParser.formatNumber(activity.boughtSol)} SOL) / ` +
+                `${activity.sells} sells (${TransactionParser.formatNumber(activity.soldSol)} SOL)`,
+        };
+    }
+
     async sendErrorAlert(errorMessage: string) {
         if (!config.telegram.errorChannelId) return;
         
@@ -84,16 +373,19 @@ ${tradeData.isWhale ? '\n🚨 **WHALE ALERT** 🚨' : ''}
     }
 
     async sendStartupMessage() {
-        try {
-            const message = `🤖 **${config.token.symbol} Bot Started**\n\nMonitoring for new purchases...`;
-            await this.bot.sendMessage(config.telegram.channelId, message, { parse_mode: 'Markdown' });
-        } catch (error: any) {
-            logger.warn('Failed to send startup message:', error);
+        for (const token of tokenRegistry.all()) {
+            const message = `🤖 **${token.symbol} Bot Started**\n\nMonitoring for new purchases...`;
+            this.queueMessage(token.channelId, message, { parse_mode: 'Markdown' });
         }
     }
 
     getStats() {
-        return { ...this.stats };
+        return {
+            ...this.stats,
+            tokens: Object.fromEntries(
+                [...this.tokenStats].map(([mint, stats]) => [mint, { ...stats }])
+            )
+        };
     }
 }
 
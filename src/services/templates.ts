@@ -0,0 +1,282 @@
+import fs from 'fs';
+import logger from '../utils/logger';
+import { BuyBarConfig, TradeData } from '../types';
+
+interface EmojiStep {
+    minSol: number;
+    emoji: string;
+}
+
+interface MessageTemplates {
+    buy: string;
+    sell: string;
+    whale: string;
+    batch: string;
+    batchLine: string;
+    backfill: string;
+    watchlist: string;
+    botTrades: string;
+    risk: string;
+    competitionStart: string;
+    leaderboard: string;
+    competitionEnd: string;
+    whaleEmoji: string;
+    sellEmoji: string;
+    emojiLadder: EmojiStep[];
+}
+
+type TemplateName = 'buy' | 'sell' | 'whale' | 'batch' | 'batchLine' | 'backfill' | 'watchlist' | 'botTrades' | 'risk'
+    | 'competitionStart' | 'leaderboard' | 'competitionEnd';
+type TemplateValues = Record<string, string | number>;
+
+const TRADE_PLACEHOLDERS = [
+    'emoji', 'symbol', 'action', 'amount', 'usd', 'tokens', 'price', 'buyer',
+    'dex', 'marketcap', 'link', 'totalRaised', 'holders', 'time', 'signature', 'bar', 'quote',
+    'liquidity', 'newHolder', 'dexLink', 'walletLink', 'wallet', 'position', 'buyerStatus', 'walletHistory',
+    'walletLabel', 'flags',
+];
+
+const PLACEHOLDERS: Record<TemplateName, string[]> = {
+    buy: TRADE_PLACEHOLDERS,
+    sell: TRADE_PLACEHOLDERS,
+    whale: TRADE_PLACEHOLDERS,
+    batch: ['count', 'symbol', 'amount', 'tokens', 'whales', 'window', 'trades', 'more'],
+    batchLine: ['amount', 'tokens', 'symbol', 'dex', 'buyer', 'link', 'walletLink'],
+    backfill: ['symbol', 'count', 'buys', 'sells', 'buyVolume', 'sellVolume', 'netFlow', 'whales', 'from', 'to'],
+    watchlist: ['emoji', 'label', 'action', 'symbol', 'amount', 'quote', 'usd', 'tokens', 'wallet', 'position', 'dex', 'link'],
+    botTrades: ['symbol', 'count', 'window', 'snipers', 'bundles', 'roundTrips', 'buyVolume', 'sellVolume'],
+    risk: ['emoji', 'title', 'symbol', 'details', 'link', 'time'],
+    competitionStart: ['symbol', 'metric', 'minBuy', 'sellPolicy', 'winners', 'start', 'end'],
+    leaderboard: ['symbol', 'entries', 'entrants', 'timeLeft', 'end'],
+    competitionEnd: ['symbol', 'winners', 'entrants', 'volume'],
+};
+
+const TRADE_BODY = `
+{bar}
+{flags} {walletLabel} {newHolder}
+
+💰 **Amount**: {quote} ({usd})
+🪙 **Tokens**: {tokens} {symbol}
+👤 **Wallet**: {wallet} {buyerStatus}
+💼 **Position**: {position}
+📒 **History**: {walletHistory}
+💵 **Price**: {price}
+🏦 **Market Cap**: {marketcap}
+💧 **Liquidity**: {liquidity}
+📊 **Total Raised**: {totalRaised} SOL
+👥 **Holders**: {holders}
+🔄 **DEX**: {dexLink}
+⏰ **Time**: {time}
+
+🔗 [View Transaction]({link})`;
+
+const DEFAULT_TEMPLATES: MessageTemplates = {
+    buy: `{emoji} **NEW {symbol} {action}**\n${TRADE_BODY}`,
+    sell: `{emoji} **{symbol} {action}**\n${TRADE_BODY}`,
+    whale: `{emoji} **NEW {symbol} {action} - WHALE ALERT!**\n${TRADE_BODY}\n\n🚨 **WHALE ALERT** 🚨`,
+    batch: `
+📦 **Batch Summary ({count} transactions)**
+
+💰 **Total Volume**: {amount} SOL
+🪙 **Total Tokens**: {tokens} {symbol}
+🐋 **Whales**: {whales}
+⏰ **Window**: {window}s
+
+{trades}{more}`,
+    batchLine: '• {amount} SOL ({dex})',
+    backfill: `
+⏪ **While we were away: {symbol}**
+
+🔄 **Trades**: {count}
+🟢 **Buys**: {buys} ({buyVolume} SOL)
+🔴 **Sells**: {sells} ({sellVolume} SOL)
+⚖️ **Net Flow**: {netFlow} SOL
+🐋 **Whales**: {whales}
+⏰ **Period**: {from} → {to}`,
+    watchlist: `
+👁 **WATCHLIST: {emoji} {label} {action} {symbol}**
+
+💰 **Amount**: {quote} ({usd})
+🪙 **Tokens**: {tokens} {symbol}
+👤 **Wallet**: {wallet}
+💼 **Position**: {position}
+🔄 **DEX**: {dex}
+
+🔗 [View Transaction]({link})`,
+    botTrades: `
+🤖 **{symbol} bot activity ({count} trades in {window}s)**
+
+🎯 **Snipers**: {snipers}
+📦 **Bundled buys**: {bundles}
+🔁 **Round trips**: {roundTrips}
+🟢 **Bought**: {buyVolume} SOL
+🔴 **Sold**: {sellVolume} SOL`,
+    risk: `
+{emoji} **RISK: {title} ({symbol})**
+
+{details}
+
+{link}
+⏰ {time}`,
+    competitionStart: `
+🏆 **{symbol} BUY COMPETITION**
+
+🎯 {metric}
+💰 **Minimum buy**: {minBuy} SOL
+🔴 **Sells**: {sellPolicy}
+🥇 **Winners**: top {winners}
+⏰ **Runs**: {start} → {end}`,
+    leaderboard: `
+🏆 **{symbol} COMPETITION LEADERBOARD**
+
+{entries}
+
+👥 **Entrants**: {entrants}
+⏳ **Ends in**: {timeLeft}`,
+    competitionEnd: `
+🎉 **{symbol} COMPETITION RESULTS**
+
+{winners}
+
+👥 **Entrants**: {entrants}
+💰 **Volume**: {volume} SOL`,
+    whaleEmoji: '🐋',
+    sellEmoji: '🔴',
+    emojiLadder: [
+        { minSol: 1, emoji: '🚀' },
+        { minSol: 0.1, emoji: '💎' },
+        { minSol: 0, emoji: '🟢' },
+    ],
+};
+
+// Drops blank lines around a template but keeps the indentation of its first line
+function trimBlankLines(text: string) {
+    return text.replace(/^(?:[ \t]*\n)+/, '').trimEnd();
+}
+
+// EMOJI_LADDER format: "1:🚀,0.1:💎,0:🟢"
+function parseEmojiLadder(value: string): EmojiStep[] {
+    return value.split(',').map(step => {
+        const [minSol, emoji] = step.split(':');
+        return { minSol: parseFloat(minSol || ''), emoji: (emoji || '').trim() };
+    });
+}
+
+function loadTemplates(): MessageTemplates {
+    let overrides: Partial<MessageTemplates> = {};
+
+    if (process.env.TEMPLATES_FILE) {
+        overrides = JSON.parse(fs.readFileSync(process.env.TEMPLATES_FILE, 'utf8'));
+        if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+            throw new Error(`${process.env.TEMPLATES_FILE} must contain a JSON object of templates`);
+        }
+    }
+
+    const fromEnv: Partial<MessageTemplates> = {
+        ...(process.env.TEMPLATE_BUY ? { buy: process.env.TEMPLATE_BUY } : {}),
+        ...(process.env.TEMPLATE_SELL ? { sell: process.env.TEMPLATE_SELL } : {}),
+        ...(process.env.TEMPLATE_WHALE ? { whale: process.env.TEMPLATE_WHALE } : {}),
+        ...(process.env.TEMPLATE_BATCH ? { batch: process.env.TEMPLATE_BATCH } : {}),
+        ...(process.env.TEMPLATE_BATCH_LINE ? { batchLine: process.env.TEMPLATE_BATCH_LINE } : {}),
+        ...(process.env.TEMPLATE_BACKFILL ? { backfill: process.env.TEMPLATE_BACKFILL } : {}),
+        ...(process.env.TEMPLATE_WATCHLIST ? { watchlist: process.env.TEMPLATE_WATCHLIST } : {}),
+        ...(process.env.TEMPLATE_BOT_TRADES ? { botTrades: process.env.TEMPLATE_BOT_TRADES } : {}),
+        ...(process.env.TEMPLATE_RISK ? { risk: process.env.TEMPLATE_RISK } : {}),
+        ...(process.env.TEMPLATE_COMPETITION_START ? { competitionStart: process.env.TEMPLATE_COMPETITION_START } : {}),
+        ...(process.env.TEMPLATE_LEADERBOARD ? { leaderboard: process.env.TEMPLATE_LEADERBOARD } : {}),
+        ...(process.env.TEMPLATE_COMPETITION_END ? { competitionEnd: process.env.TEMPLATE_COMPETITION_END } : {}),
+        ...(process.env.WHALE_EMOJI ? { whaleEmoji: process.env.WHALE_EMOJI } : {}),
+        ...(process.env.SELL_EMOJI ? { sellEmoji: process.env.SELL_EMOJI } : {}),
+        ...(process.env.EMOJI_LADDER ? { emojiLadder: parseEmojiLadder(process.env.EMOJI_LADDER) } : {}),
+    };
+
+    // Env vars take precedence over the file so single strings can be tweaked per deployment
+    const templates = { ...DEFAULT_TEMPLATES, ...overrides, ...fromEnv };
+    // Env values can't contain real newlines on most hosts, so accept "\n" escapes
+    for (const name of Object.keys(PLACEHOLDERS) as TemplateName[]) {
+        const template: unknown = templates[name];
+        // The file is free-form JSON, so a number or object can turn up here
+        if (typeof template !== 'string' || !template.trim()) {
+            throw new Error(`Template "${name}" must be a non-empty string`);
+        }
+        templates[name] = trimBlankLines(template.replace(/\\n/g, '\n'));
+    }
+    for (const name of ['whaleEmoji', 'sellEmoji'] as const) {
+        if (typeof templates[name] !== 'string') {
+            throw new Error(`"${name}" must be a string`);
+        }
+    }
+    if (!Array.isArray(templates.emojiLadder) || templates.emojiLadder.length === 0) {
+        throw new Error('Emoji ladder must have at least one step');
+    }
+    templates.emojiLadder = [...templates.emojiLadder].sort((a, b) => b.minSol - a.minSol);
+
+    validateTemplates(templates);
+    return templates;
+}
+
+function validateTemplates(templates: MessageTemplates) {
+    for (const [name, allowed] of Object.entries(PLACEHOLDERS) as Array<[TemplateName, string[]]>) {
+        const template = templates[name];
+        for (const [, placeholder] of template.matchAll(/\{(\w+)\}/g)) {
+            if (placeholder && !allowed.includes(placeholder)) {
+                throw new Error(`Template "${name}" uses unknown placeholder {${placeholder}}. Allowed: ${allowed.join(', ')}`);
+            }
+        }
+    }
+
+    for (const step of templates.emojiLadder) {
+        if (typeof step?.minSol !== 'number' || isNaN(step.minSol) || typeof step.emoji !== 'string' || !step.emoji) {
+            throw new Error(`Invalid emoji ladder step: ${JSON.stringify(step)}`);
+        }
+    }
+}
+
+class TemplateService {
+    templates: MessageTemplates;
+    constructor() {
+        this.templates = loadTemplates();
+        logger.debug(`Message templates loaded${process.env.TEMPLATES_FILE ? ` from ${process.env.TEMPLATES_FILE}` : ''}`);
+    }
+
+    render(name: TemplateName, values: TemplateValues) {
+        return this.templates[name]
+            .split('\n')
+            .map(line => {
+                let blanked = false;
+                const rendered = line.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+                    if (!(key in values)) return placeholder;
+                    const value = String(values[key]);
+                    if (!value) blanked = true;
+                    return value;
+                });
+                if (!blanked) return rendered;
+
+                // Optional placeholders (e.g. an empty buy bar) shouldn't leave gaps behind;
+                // the line's own indentation is kept unless nothing else is left on it
+                const indent = /^[ \t]*/.exec(line)?.[0] || '';
+                const rest = rendered.slice(indent.length).trim();
+                return rest ? indent + rest : '';
+            })
+            .join('\n')
+            .replace(/\n{3,}/g, '\n\n')
+            .replace(/^\n+/, '')
+            .trimEnd();
+    }
+
+    // One emoji per `step` SOL, at least one and never more than `maxLength` (0 disables the bar)
+    renderBuyBar(amountSol: number, buyBar: BuyBarConfig) {
+        const length = Math.min(Math.max(Math.floor(amountSol / buyBar.step), 1), buyBar.maxLength);
+        return buyBar.emoji.repeat(length);
+    }
+
+    getEmoji(amountSol: number, isWhale: boolean, type: TradeData['type'] = 'BUY') {
+        if (type === 'SELL') return this.templates.sellEmoji;
+        if (isWhale) return this.templates.whaleEmoji;
+        const step = this.templates.emojiLadder.find(step => amountSol >= step.minSol);
+        return step?.emoji || '';
+    }
+}
+
+export type { MessageTemplates, TemplateName, TemplateValues };
+export default new TemplateService();
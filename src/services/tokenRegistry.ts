@@ -0,0 +1,41 @@
+import config from '../config';
+import { TokenConfig } from '../types';
+
+class TokenRegistry {
+    tokens: Map<string, TokenConfig>;
+    constructor() {
+        this.tokens = new Map(config.tokens.map(token => [token.mintAddress, token]));
+    }
+
+    get(mintAddress: string) {
+        return this.tokens.get(mintAddress);
+    }
+
+    findBySymbol(symbol: string) {
+        return this.all().find(token => token.symbol.toLowerCase() === symbol.toLowerCase());
+    }
+
+    has(mintAddress: string) {
+        return this.tokens.has(mintAddress);
+    }
+
+    all() {
+        return [...this.tokens.values()];
+    }
+
+    mints() {
+        return [...this.tokens.keys()];
+    }
+
+    // Mints plus any configured pool accounts, i.e. everything ingestion should watch
+    watchAddresses() {
+        const addresses = this.all().flatMap(token => [token.mintAddress, ...token.poolAddresses]);
+        return [...new Set(addresses)];
+    }
+
+    symbols() {
+        return this.all().map(token => token.symbol).join(', ');
+    }
+}
+
+export default new TokenRegistry();
@@ -0,0 +1,141 @@
+import config from '../config';
+import logger from '../utils/logger';
+import SimpleCache from '../utils/cache';
+import helius from './helius';
+import requestQueue from './requestQueue';
+import tokenRegistry from './tokenRegistry';
+import { TokenConfig, TradeData, TradeFlag } from '../types';
+
+const FLAG_LABELS: Record<TradeFlag, string> = {
+    sniper: '🎯 Sniper',
+    bundle: '📦 Bundle',
+    roundtrip: '🔁 Round trip',
+};
+
+// Launch-slot and funding-source lookups wait in the shared request queue for at most this long
+const LOOKUP_TIMEOUT = 30000;
+
+// Flags launch snipers, same-slot bundles and quick buy-sell round trips
+class TradeFlagService {
+    counters: Record<TradeFlag, number>;
+    // mint -> launch slot (null when the launch is too far back to matter)
+    private launchSlots = new Map<string, Promise<number | null>>();
+    // `${mint}:${slot}` -> buyers seen in that slot
+    private slotBuys: SimpleCache;
+    // `${mint}:${wallet}` -> time of the wallet's last buy (ms)
+    private lastBuys: SimpleCache;
+    // wallet -> funding source lookup (resolves to null when unknown)
+    private funders: SimpleCache;
+
+    constructor() {
+        this.counters = { sniper: 0, bundle: 0, roundtrip: 0 };
+        this.slotBuys = new SimpleCache(500);
+        this.lastBuys = new SimpleCache(10000);
+        this.funders = new SimpleCache(5000);
+    }
+
+    // Must see every recorded trade, alerted or not, so round trips and bundles aren't missed
+    async classify(tradeData: TradeData) {
+        const token = tokenRegistry.get(tradeData.mint);
+        if (!token) return [];
+
+        const flags: TradeFlag[] = [];
+        try {
+            if (tradeData.type === 'BUY') {
+                if (await this.isSniper(token, tradeData)) flags.push('sniper');
+                if (await this.isBundled(tradeData)) flags.push('bundle');
+                this.lastBuys.set(`${tradeData.mint}:${tradeData.buyer}`, tradeData.timestamp.getTime());
+            } else if (tradeData.type === 'SELL' && this.isRoundTrip(tradeData)) {
+                flags.push('roundtrip');
+            }
+        } catch (error: any) {
+            logger.debug(`Trade classification failed for ${tradeData.signature}: ${error.message}`);
+        }
+
+        for (const flag of flags) this.counters[flag]++;
+        return flags;
+    }
+
+    // Flags available within `timeoutMs`. Lookups that take longer still finish and update
+    // state and counters, but this trade goes out untagged rather than holding up its alert
+    async classifyWithin(tradeData: TradeData, timeoutMs = config.features.botTradeTimeout) {
+        let timer: NodeJS.Timeout | undefined;
+        const deadline = new Promise<TradeFlag[]>(resolve => {
+            timer = setTimeout(() => {
+                logger.debug(`Classification of ${tradeData.signature} still running after ${timeoutMs}ms, alerting untagged`);
+                resolve([]);
+            }, timeoutMs);
+        });
+
+        try {
+            return await Promise.race([this.classify(tradeData), deadline]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    label(flags: TradeFlag[] = []) {
+        return flags.map(flag => FLAG_LABELS[flag]).join(' ');
+    }
+
+    private async isSniper(token: TokenConfig, tradeData: TradeData) {
+        if (!tradeData.slot) return false;
+        const launchSlot = await this.getLaunchSlot(token);
+        return launchSlot !== null && tradeData.slot - launchSlot <= config.features.sniperSlots;
+    }
+
+    private getLaunchSlot(token: TokenConfig) {
+        let launchSlot = this.launchSlots.get(token.mintAddress);
+        if (!launchSlot) {
+            // Pump.fun-style launches create the mint and pool together, so the mint works as a fallback
+            const address = token.poolAddresses[0] || token.mintAddress;
+            launchSlot = token.launchSlot !== undefined
+                ? Promise.resolve(token.launchSlot)
+                : requestQueue.run(() => helius.getOldestSignature(address), LOOKUP_TIMEOUT)
+                    .then(oldest => oldest?.slot ?? null);
+
+            launchSlot.catch(() => this.launchSlots.delete(token.mintAddress));
+            this.launchSlots.set(token.mintAddress, launchSlot);
+        }
+        return launchSlot;
+    }
+
+    // Only costs lookups when a second wallet buys in the same slot
+    private async isBundled(tradeData: TradeData) {
+        if (!tradeData.slot) return false;
+
+        const key = `${tradeData.mint}:${tradeData.slot}`;
+        const earlier: string[] = this.slotBuys.get(key) || [];
+        this.slotBuys.set(key, [...earlier, tradeData.buyer]);
+
+        const others = [...new Set(earlier)].filter(buyer => buyer !== tradeData.buyer);
+        if (others.length === 0) return false;
+
+        const funder = await this.getFunder(tradeData.buyer);
+        if (!funder) return false;
+
+        for (const other of others) {
+            if (await this.getFunder(other) === funder) return true;
+        }
+        return false;
+    }
+
+    private getFunder(wallet: string): Promise<string | null> {
+        let funder: Promise<string | null> | undefined = this.funders.get(wallet);
+        if (!funder) {
+            // Cache the lookup itself so wallets buying in the same slot share one request
+            funder = requestQueue.run(() => helius.getFundingSource(wallet), LOOKUP_TIMEOUT);
+            funder.catch(() => this.funders.delete(wallet));
+            this.funders.set(wallet, funder);
+        }
+        return funder;
+    }
+
+    private isRoundTrip(tradeData: TradeData) {
+        const boughtAt: number | undefined = this.lastBuys.get(`${tradeData.mint}:${tradeData.buyer}`);
+        return boughtAt !== undefined
+            && tradeData.timestamp.getTime() - boughtAt <= config.features.roundTripWindow * 1000;
+    }
+}
+
+export default new TradeFlagService();
@@ -0,0 +1,129 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { PublicKey } from '@solana/web3.js';
+import config from '../config';
+import logger from '../utils/logger';
+import { WalletLabel } from '../types';
+
+const DEFAULT_EMOJI = '🏷️';
+// Telegram Markdown entity and link delimiters
+const MARKDOWN_CHARS = /[_*`[\]()]/;
+
+// Known wallets (dev, marketing, CEX hot wallets, KOLs...) loaded from WALLET_LABELS_FILE.
+// Edits made through the API are written back to the same file.
+class WalletLabelService {
+    labels: Map<string, WalletLabel>;
+    filePath: string;
+    // Set when the file couldn't be read; saving would overwrite labels we never loaded
+    loadError: string | null;
+    constructor() {
+        this.labels = new Map();
+        this.filePath = path.resolve(config.walletLabels.filePath);
+        this.loadError = null;
+    }
+
+    async load() {
+        let entries: unknown;
+        try {
+            entries = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+            if (!Array.isArray(entries)) {
+                throw new Error('wallet labels file must contain a JSON array');
+            }
+        } catch (error: any) {
+            if (error.code === 'ENOENT') return;
+            // A broken labels file shouldn't take alerts down; fix it and restart
+            this.loadError = error.message;
+            logger.error(`Failed to load wallet labels from ${this.filePath}: ${error.message}`);
+            return;
+        }
+
+        this.labels = new Map();
+        this.loadError = null;
+        for (const entry of entries as unknown[]) {
+            try {
+                const label = this.normalize(entry);
+                this.labels.set(label.address, label);
+            } catch (error: any) {
+                logger.warn(`Skipping wallet label in ${this.filePath}: ${error.message}`);
+            }
+        }
+        logger.info(`Loaded ${this.labels.size} wallet label(s), ${this.watched().length} on the watchlist`);
+    }
+
+    get(address: string) {
+        return this.labels.get(address);
+    }
+
+    all() {
+        return [...this.labels.values()];
+    }
+
+    watched() {
+        return this.all().filter(label => label.watch);
+    }
+
+    isWatched(address: string) {
+        return !!this.labels.get(address)?.watch;
+    }
+
+    // Merges changes into the existing label (if any); throws on invalid input without saving
+    build(address: string, changes: Partial<WalletLabel>) {
+        return this.normalize({ ...this.labels.get(address), ...changes, address });
+    }
+
+    async put(label: WalletLabel) {
+        this.assertWritable();
+        this.labels.set(label.address, label);
+        await this.save();
+        return label;
+    }
+
+    async remove(address: string) {
+        this.assertWritable();
+        const removed = this.labels.delete(address);
+        if (removed) await this.save();
+        return removed;
+    }
+
+    private normalize(entry: any): WalletLabel {
+        const address = String(entry?.address || '').trim();
+        try {
+            new PublicKey(address);
+        } catch {
+            throw new Error(`Invalid wallet address: ${address || '(empty)'}`);
+        }
+
+        const label = typeof entry.label === 'string' ? entry.label.trim() : '';
+        if (!label) {
+            throw new Error(`Wallet ${address} needs a label`);
+        }
+
+        const emoji = typeof entry.emoji === 'string' && entry.emoji.trim() ? entry.emoji.trim() : DEFAULT_EMOJI;
+        // Labels are dropped into Markdown alerts and wallet links, where these would break the parse
+        if (MARKDOWN_CHARS.test(label) || MARKDOWN_CHARS.test(emoji)) {
+            throw new Error(`Wallet ${address} label and emoji can't contain _ * \` [ ] ( )`);
+        }
+
+        return {
+            address,
+            label,
+            emoji,
+            watch: entry.watch === true,
+        };
+    }
+
+    private assertWritable() {
+        if (this.loadError) {
+            throw new Error(`Wallet labels file failed to load (${this.loadError}); fix it and restart before editing labels`);
+        }
+    }
+
+    private async save() {
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tempPath, JSON.stringify(this.all(), null, 2));
+        await fs.rename(tempPath, this.filePath);
+    }
+}
+
+export default new WalletLabelService();
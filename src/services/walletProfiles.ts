@@ -0,0 +1,130 @@
+import config from '../config';
+import logger from '../utils/logger';
+import SimpleCache from '../utils/cache';
+import helius from './helius';
+import requestQueue from './requestQueue';
+import storage from './storage';
+import TransactionParser from './parser';
+import { TradeData, WalletActivity, WalletProfile } from '../types';
+
+// Allow for rounding in UI amounts when comparing a balance with the amount just traded
+const BALANCE_TOLERANCE = 1.0001;
+// Balance lookups hold up the alert, so give up rather than wait out a long queue
+const POSITION_TIMEOUT = 5000;
+
+function emptyActivity(at: string): WalletActivity {
+    return {
+        buys: 0,
+        sells: 0,
+        boughtSol: 0,
+        soldSol: 0,
+        tokensBought: 0,
+        tokensSold: 0,
+        firstSeen: at,
+        lastSeen: at,
+    };
+}
+
+class WalletProfileService {
+    // `${mint}:${wallet}` -> last known token balance
+    positions: SimpleCache;
+    constructor() {
+        this.positions = new SimpleCache(5000);
+    }
+
+    // Called once per recorded trade, whether or not it is alerted
+    record(tradeData: TradeData) {
+        if (tradeData.type === 'UNKNOWN') return;
+
+        const at = tradeData.timestamp.toISOString();
+        const activity = storage.getWalletActivity(tradeData.mint, tradeData.buyer) || emptyActivity(at);
+
+        if (tradeData.type === 'BUY') {
+            activity.buys++;
+            activity.boughtSol += tradeData.amountSol;
+            activity.tokensBought += tradeData.tokensBought;
+        } else {
+            activity.sells++;
+            activity.soldSol += tradeData.amountSol;
+            activity.tokensSold += tradeData.tokensBought;
+        }
+        activity.lastSeen = at;
+        storage.setWalletActivity(tradeData.mint, tradeData.buyer, activity);
+
+        // Keep a cached balance current instead of looking it up again for every trade
+        const key = `${tradeData.mint}:${tradeData.buyer}`;
+        const cached = this.positions.get(key);
+        if (cached) {
+            const delta = this.balanceChange(tradeData);
+            cached.balance = Math.max(cached.balance + delta, 0);
+        }
+    }
+
+    // Balance after this trade: from the transaction itself when available, else a cached RPC lookup
+    async getPosition(tradeData: TradeData) {
+        const key = `${tradeData.mint}:${tradeData.buyer}`;
+
+        const postBalance = TransactionParser.getPostTokenBalance(tradeData.raw, tradeData.buyer, tradeData.mint);
+        if (postBalance !== null) {
+            this.positions.set(key, { balance: postBalance, fetchedAt: Date.now() });
+            return postBalance;
+        }
+
+        const cached = this.positions.get(key);
+        if (cached && Date.now() - cached.fetchedAt < config.features.walletCacheTtl) {
+            return cached.balance as number;
+        }
+
+        try {
+            const balance = await requestQueue.run(
+                () => helius.getWalletTokenBalance(tradeData.buyer, tradeData.mint),
+                POSITION_TIMEOUT
+            );
+            this.positions.set(key, { balance, fetchedAt: Date.now() });
+            return balance;
+        } catch (error: any) {
+            logger.debug(`Position lookup failed for ${tradeData.buyer}: ${error.message}`);
+            return null;
+        }
+    }
+
+    // True when the wallet held nothing before this buy; null if we can't tell.
+    // `getPosition` is the caller's shared lookup, only used when the transaction doesn't say
+    async isNewHolder(tradeData: TradeData, getPosition: () => Promise<number | null>) {
+        const preBalance = TransactionParser.getPreTokenBalance(tradeData.raw, tradeData.buyer, tradeData.mint);
+        if (preBalance !== null) return preBalance === 0;
+
+        // A token account opened by this buy held nothing before it
+        if (TransactionParser.opensTokenAccount(tradeData.raw, tradeData.buyer, tradeData.mint)) return true;
+
+        const position = await getPosition();
+        return position === null ? null : position <= this.balanceChange(tradeData) * BALANCE_TOLERANCE;
+    }
+
+    // The buyer's own token balance change; tokensBought is the swap amount, which fees or routing can skew
+    private balanceChange(tradeData: TradeData) {
+        const change = TransactionParser.getTokenBalanceChange(tradeData.raw, tradeData.buyer, tradeData.mint);
+        if (change !== null) return change;
+        return tradeData.type === 'BUY' ? tradeData.tokensBought : -tradeData.tokensBought;
+    }
+
+    // `position` comes from the caller's per-trade lookup (null when it failed)
+    async getProfile(tradeData: TradeData, position: number | null): Promise<WalletProfile> {
+        const activity = storage.getWalletActivity(tradeData.mint, tradeData.buyer)
+            || emptyActivity(tradeData.timestamp.toISOString());
+
+        // The bot only sees trades since it started, so a wallet that already held tokens is a repeat buyer too
+        const heldBefore = position !== null && position > this.balanceChange(tradeData) * BALANCE_TOLERANCE;
+        const isFirstBuy = tradeData.type === 'BUY' && activity.buys <= 1 && activity.sells === 0 && !heldBefore;
+
+        return {
+            address: tradeData.buyer,
+            position,
+            isFirstBuy,
+            isRepeatBuyer: tradeData.type === 'BUY' && !isFirstBuy,
+            activity,
+        };
+    }
+}
+
+export default new WalletProfileService();
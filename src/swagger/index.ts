@@ -15,6 +15,12 @@ const options: swaggerJSDoc.Options = {
         url: process.env.BASE_URL || 'http://localhost:3000',
       },
     ],
+    components: {
+      securitySchemes: {
+        // Admin routes expect `Authorization: Bearer <ADMIN_API_TOKEN>`
+        adminToken: { type: 'http', scheme: 'bearer' },
+      },
+    },
   },
   apis: ['./src/**/*.ts'], // Path to your route files
 };
@@ -2,50 +2,365 @@ interface TelegramConfig {
   botToken: string;
   channelId: string;
   errorChannelId?: string | undefined;
+  adminIds: string[];
+  enableCommands: boolean;
   retryAttempts: number;
   retryDelay: number;
+  buttonsPerRow: number;
+  chatInterval: number;
+  globalRateLimit: number;
+  maxQueueSize: number;
+  maxRetryDelay: number;
 }
 
 interface HeliusConfig {
   apiKey: string;
   rpcUrl: string;
+  wsUrl?: string | undefined;
   webhookUrl?: string | undefined;
+  webhookSecret?: string | undefined;
+  webhookAllowedIps: string[];
+  manageWebhook: boolean;
   retryAttempts: number;
 }
 
+interface BuyBarConfig {
+  emoji: string;
+  step: number;
+  maxLength: number;
+}
+
+type AlertMode = 'buys' | 'all' | 'large_sells';
+
+type MediaType = 'photo' | 'animation' | 'video';
+
+interface MediaConfig {
+  // Local file path, URL or a Telegram file_id
+  source: string;
+  type: MediaType;
+}
+
+type Explorer = 'solscan' | 'solana' | 'solanafm';
+
+interface AlertButton {
+  text: string;
+  // URL template; see BUTTON_PLACEHOLDERS in config
+  url: string;
+}
+
+// Admin-channel risk alert thresholds; 0 disables a check
+interface RiskConfig {
+  // A single sell above this % of supply or of pool liquidity
+  sellSupplyPct: number;
+  sellLiquidityPct: number;
+  // Sell volume at least this many times buy volume over `window` seconds, once sells reach `sellPressureMinSol`
+  sellPressureRatio: number;
+  sellPressureMinSol: number;
+  window: number;
+  // Change in the top-10 holders' share of supply, in percentage points, between checks
+  topHolderChangePct: number;
+  // Drop in pool liquidity between checks, in %
+  liquidityDropPct: number;
+  // Seconds before the same kind of alert can fire again for a token
+  cooldown: number;
+}
+
+type RiskAlertKind = 'large_sell' | 'sell_pressure' | 'holder_concentration' | 'liquidity_pulled';
+
+interface TokenMediaConfig {
+  buy?: MediaConfig | undefined;
+  whale?: MediaConfig | undefined;
+}
+
 interface TokenConfig {
   mintAddress: string;
   symbol: string;
   decimals: number;
+  channelId: string;
+  whaleThreshold: number;
+  buyBar: BuyBarConfig;
+  minBuySol: number;
+  minBuyUsd: number;
+  poolAddresses: string[];
+  // Slot the pool was created in; looked up from the first pool (or mint) transaction when unset
+  launchSlot?: number | undefined;
+  alertMode: AlertMode;
+  sellAlertThreshold: number;
+  media: TokenMediaConfig;
+  explorer: Explorer;
+  buttons: AlertButton[];
+  risk: RiskConfig;
 }
 
 interface ServerConfig {
   port: number;
   environment: string;
+  // Bearer token for admin routes; they are disabled when unset
+  adminToken?: string | undefined;
 }
 
+type IngestionMode = 'webhook' | 'polling' | 'websocket' | 'none';
+
 interface FeaturesConfig {
+  ingestionMode: IngestionMode;
   enablePolling: boolean;
   pollingInterval: number;
   whaleThreshold: number;
   batchWindow: number;
   maxCacheSize: number;
   maxRequestsPerMinute: number;
+  holderRefreshInterval: number;
+  detectNewHolders: boolean;
+  wsIdleTimeout: number;
+  walletProfiles: boolean;
+  walletCacheTtl: number;
+  botTradeAction: BotTradeAction;
+  botTradeWindow: number;
+  botTradeTimeout: number;
+  sniperSlots: number;
+  roundTripWindow: number;
+  riskCheckInterval: number;
+  competitionLeaderboardInterval: number;
+  competitionLeaderboardSize: number;
+  competitionSellPolicy: CompetitionSellPolicy;
+  competitionWinners: number;
+}
+
+interface StorageConfig {
+  backend: 'json' | 'memory';
+  filePath: string;
+  maxSignatures: number;
+  maxTrades: number;
+  maxWallets: number;
+  flushDelay: number;
+}
+
+interface WalletLabelsConfig {
+  filePath: string;
 }
 
 interface Config {
   telegram: TelegramConfig;
   helius: HeliusConfig;
-  token: TokenConfig;
+  tokens: TokenConfig[];
   server: ServerConfig;
   features: FeaturesConfig;
+  storage: StorageConfig;
+  walletLabels: WalletLabelsConfig;
+}
+
+interface TradeData {
+  signature: string;
+  mint: string;
+  symbol: string;
+  buyer: string;
+  quoteMint: string;
+  quoteSymbol: string;
+  quoteAmount: number;
+  amountSol: number;
+  amountUsd: number;
+  tokensBought: number;
+  pricePerToken: number;
+  type: 'BUY' | 'SELL' | 'UNKNOWN';
+  timestamp: Date;
+  slot: number;
+  dex: string;
+  isWhale: boolean;
+  isNewHolder: boolean;
+  walletProfile?: WalletProfile | undefined;
+  flags?: TradeFlag[] | undefined;
+  raw: any;
+}
+
+interface WalletLabel {
+  address: string;
+  label: string;
+  emoji: string;
+  // Watched wallets trigger a priority alert to the admin channel on every trade
+  watch: boolean;
+}
+
+// How sells by an entrant during a competition are handled
+type CompetitionSellPolicy = 'disqualify' | 'net';
+// total: SOL bought over the contest; largest: biggest single buy
+type CompetitionMetric = 'total' | 'largest';
+type CompetitionStatus = 'scheduled' | 'active' | 'ended' | 'cancelled';
+
+interface CompetitionEntry {
+  wallet: string;
+  buys: number;
+  bought: number;
+  largestBuy: number;
+  sells: number;
+  sold: number;
+  disqualified: boolean;
+}
+
+interface Competition {
+  id: string;
+  mint: string;
+  symbol: string;
+  startsAt: string;
+  endsAt: string;
+  minBuySol: number;
+  sellPolicy: CompetitionSellPolicy;
+  metric: CompetitionMetric;
+  winners: number;
+  status: CompetitionStatus;
+  // Keyed by wallet
+  entries: Record<string, CompetitionEntry>;
+  // SOL sold by wallets with no entry yet, applied if they buy later; capped, oldest dropped
+  presold?: Record<string, number>;
+  lastLeaderboardAt?: string;
+  // Winning wallets, best first, once the competition has ended
+  results?: string[];
+}
+
+// sniper: within a few slots of launch; bundle: same-slot buys by wallets with a shared funder;
+// roundtrip: a sell shortly after the same wallet bought
+type TradeFlag = 'sniper' | 'bundle' | 'roundtrip';
+
+// tag: alert with flags shown; aggregate: roll flagged trades into a periodic summary; suppress: record only
+type BotTradeAction = 'off' | 'tag' | 'aggregate' | 'suppress';
+
+// Per-token trading history of one wallet, as seen by the bot
+interface WalletActivity {
+  buys: number;
+  sells: number;
+  boughtSol: number;
+  soldSol: number;
+  tokensBought: number;
+  tokensSold: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+interface WalletProfile {
+  address: string;
+  // Token balance after this trade; null when it couldn't be looked up
+  position: number | null;
+  isFirstBuy: boolean;
+  isRepeatBuyer: boolean;
+  activity: WalletActivity;
+}
+
+interface TokenMarketData {
+  priceUsd: number;
+  supply: number;
+  marketCap: number;
+  liquidityUsd: number;
+}
+
+interface TokenStats {
+  totalRaised: number;
+  totalHolders: number;
+  transactionCount: number;
+  buyVolume: number;
+  sellVolume: number;
+  netFlow: number;
+  buyCount: number;
+  sellCount: number;
+}
+
+interface TradeRecord {
+  signature: string;
+  mint: string;
+  symbol: string;
+  buyer: string;
+  quoteSymbol: string;
+  quoteAmount: number;
+  amountSol: number;
+  amountUsd: number;
+  tokensBought: number;
+  pricePerToken: number;
+  type: TradeData['type'];
+  timestamp: string;
+  dex: string;
+  isWhale: boolean;
+}
+
+interface HeliusWebhook {
+  webhookID: string;
+  wallet?: string;
+  webhookURL: string;
+  transactionTypes: string[];
+  accountAddresses: string[];
+  webhookType: string;
+  authHeader?: string;
+}
+
+type WebhookChanges = Partial<Omit<HeliusWebhook, 'webhookID' | 'wallet'>>;
+
+interface OutboundMessage {
+  id: string;
+  chatId: string;
+  text: string;
+  options: Record<string, any>;
+  media?: MediaConfig;
+  attempts: number;
+  enqueuedAt: string;
+}
+
+// Signatures strictly between `until` (older) and `before` (newer) haven't been fetched yet
+interface PollGap {
+  until: string;
+  before: string;
+}
+
+interface PersistedState {
+  signatures: string[];
+  stats: Partial<TokenStats> & {
+    tokens: Record<string, Partial<TokenStats>>;
+  };
+  trades: TradeRecord[];
+  cursors: Record<string, string>;
+  // Stretches of history polling skipped when it fell behind, still to be fetched
+  pollGaps: Record<string, PollGap[]>;
+  outbox: OutboundMessage[];
+  mediaFileIds: Record<string, string>;
+  // Keyed by `${mint}:${wallet}`, least recently active first
+  wallets: Record<string, WalletActivity>;
+  competitions: Competition[];
+  // The Helius webhook this bot created, so it can be found again after WEBHOOK_URL changes
+  webhookId?: string;
 }
 
-export type { 
-  Config, 
-  TelegramConfig, 
-  HeliusConfig, 
-  TokenConfig, 
-  ServerConfig, 
-  FeaturesConfig 
-};
\ No newline at end of file
+export type {
+  Config,
+  TelegramConfig,
+  HeliusConfig,
+  TokenConfig,
+  AlertMode,
+  BuyBarConfig,
+  MediaType,
+  MediaConfig,
+  TokenMediaConfig,
+  Explorer,
+  AlertButton,
+  RiskConfig,
+  RiskAlertKind,
+  ServerConfig,
+  IngestionMode,
+  FeaturesConfig,
+  StorageConfig,
+  WalletLabelsConfig,
+  WalletLabel,
+  TradeData,
+  TradeFlag,
+  BotTradeAction,
+  WalletActivity,
+  WalletProfile,
+  TokenMarketData,
+  TokenStats,
+  TradeRecord,
+  PersistedState,
+  PollGap,
+  HeliusWebhook,
+  WebhookChanges,
+  OutboundMessage,
+  CompetitionSellPolicy,
+  CompetitionMetric,
+  CompetitionStatus,
+  CompetitionEntry,
+  Competition
+};